@@ -0,0 +1,239 @@
+import os from 'os';
+import path from 'path';
+import { ContextBudget, JiraOperation, LLMConfig, LLMSettings, MCPTransportConfig, ModelPrice } from '../types/types';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions } from '../services/RetryPolicy';
+import { DEFAULT_CONTEXT_BUDGET } from '../services/ContextWindow';
+import { BUNDLED_PROMPTS_DIR } from '../services/PromptLibrary';
+import { DEFAULT_MODEL_PRICES } from '../services/UsageTracker';
+
+// Application configuration read from environment variables (.env is loaded in index.ts)
+
+// Parse a list given either as a JSON array or as whitespace-separated words
+function parseList(value: string | undefined): string[] {
+  if (!value || !value.trim()) {
+    return [];
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Expected a JSON array, got: ${trimmed}`);
+    }
+    return parsed.map(String);
+  }
+
+  return trimmed.split(/\s+/);
+}
+
+// Parse a non-negative integer setting, falling back to the default when unset
+function parseInteger(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+// Parse a number setting within a range, falling back to the default when unset
+function parseNumber(name: string, value: string | undefined, fallback: number, min: number, max: number): number {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max} (got "${value}")`);
+  }
+  return parsed;
+}
+
+// Which MCP server to talk to and how
+//   MCP_TRANSPORT       http (default) or stdio
+//   ZAPIER_MCP_URL      endpoint for the http transport
+//   MCP_API_KEY         optional bearer token for the http transport
+//   MCP_STDIO_COMMAND   executable for the stdio transport
+//   MCP_STDIO_ARGS      its arguments (JSON array or space-separated)
+//   MCP_STDIO_CWD       optional working directory
+//   MCP_STDIO_ENV       optional JSON object of extra environment variables
+export function loadMCPTransportConfig(env: NodeJS.ProcessEnv = process.env): MCPTransportConfig {
+  const type = (env.MCP_TRANSPORT || 'http').toLowerCase();
+
+  if (type === 'stdio') {
+    if (!env.MCP_STDIO_COMMAND) {
+      throw new Error('MCP_STDIO_COMMAND is required when MCP_TRANSPORT=stdio');
+    }
+
+    return {
+      type: 'stdio',
+      stdio: {
+        command: env.MCP_STDIO_COMMAND,
+        args: parseList(env.MCP_STDIO_ARGS),
+        cwd: env.MCP_STDIO_CWD || undefined,
+        env: env.MCP_STDIO_ENV ? JSON.parse(env.MCP_STDIO_ENV) : undefined
+      }
+    };
+  }
+
+  if (type !== 'http') {
+    throw new Error(`Unknown MCP_TRANSPORT "${env.MCP_TRANSPORT}" (expected http or stdio)`);
+  }
+
+  return {
+    type: 'http',
+    url: env.ZAPIER_MCP_URL || 'https://mcp.zapier.com',
+    apiKey: env.MCP_API_KEY || undefined
+  };
+}
+
+// Explicit tool names (or /patterns/) per Jira operation, for accounts whose Zapier
+// actions do not match the default patterns
+//   JIRA_TOOL_MAP   JSON object, e.g. {"createIssue":"jira_create_issue","searchIssues":"/find.*jql/"}
+export function loadToolNameOverrides(env: NodeJS.ProcessEnv = process.env): Partial<Record<JiraOperation, string>> {
+  if (!env.JIRA_TOOL_MAP || !env.JIRA_TOOL_MAP.trim()) {
+    return {};
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(env.JIRA_TOOL_MAP);
+  } catch (error) {
+    throw new Error(`JIRA_TOOL_MAP is not valid JSON: ${error.message}`);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('JIRA_TOOL_MAP must be a JSON object mapping operations to tool names');
+  }
+
+  return parsed;
+}
+
+// Retry behaviour for safe MCP calls and for create requests with an unknown outcome
+//   MCP_RETRY_MAX_ATTEMPTS    total attempts including the first (default 3; 1 disables retries)
+//   MCP_RETRY_BASE_DELAY_MS   first backoff ceiling, doubled per attempt (default 500)
+//   MCP_RETRY_MAX_DELAY_MS    upper bound for any single wait, including Retry-After (default 10000)
+export function loadRetryOptions(env: NodeJS.ProcessEnv = process.env): RetryOptions {
+  return {
+    maxAttempts: Math.max(1, parseInteger('MCP_RETRY_MAX_ATTEMPTS', env.MCP_RETRY_MAX_ATTEMPTS, DEFAULT_RETRY_OPTIONS.maxAttempts)),
+    baseDelayMs: parseInteger('MCP_RETRY_BASE_DELAY_MS', env.MCP_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_OPTIONS.baseDelayMs),
+    maxDelayMs: parseInteger('MCP_RETRY_MAX_DELAY_MS', env.MCP_RETRY_MAX_DELAY_MS, DEFAULT_RETRY_OPTIONS.maxDelayMs)
+  };
+}
+
+// Directory for local state such as the offline outbox
+//   JIRA_AGENT_HOME   defaults to ~/.jira-ai-agent
+export function loadDataDirectory(env: NodeJS.ProcessEnv = process.env): string {
+  return env.JIRA_AGENT_HOME || path.join(os.homedir(), '.jira-ai-agent');
+}
+
+// Where issues that failed to create are queued
+//   JIRA_OUTBOX_PATH   defaults to outbox.json in the data directory
+export function loadOutboxPath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.JIRA_OUTBOX_PATH || path.join(loadDataDirectory(env), 'outbox.json');
+}
+
+// Which language model the agent uses
+//   LLM_PROVIDER      openai (default), openai-compatible (alias: local) or scripted
+//   LLM_MODEL         model name (default gpt-4o-mini; required for openai-compatible)
+//   LLM_BASE_URL      API base URL; openai-compatible defaults to Ollama at http://localhost:11434/v1
+//   LLM_API_KEY       API key (falls back to OPENAI_API_KEY; local servers usually need none)
+//   LLM_TEMPERATURE   sampling temperature for chat replies, 0-2 (default 0.7)
+//   LLM_MAX_TOKENS    upper bound on tokens per chat reply (default 500)
+//   LLM_SCRIPT_PATH   JSON file of canned replies for the scripted provider
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || 'openai').toLowerCase();
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY || undefined;
+  const settings = (defaultModel?: string): LLMSettings => {
+    const model = env.LLM_MODEL || defaultModel;
+    if (!model) {
+      throw new Error(`LLM_MODEL is required when LLM_PROVIDER=${provider}`);
+    }
+    return {
+      model,
+      temperature: parseNumber('LLM_TEMPERATURE', env.LLM_TEMPERATURE, 0.7, 0, 2),
+      maxTokens: Math.max(1, parseInteger('LLM_MAX_TOKENS', env.LLM_MAX_TOKENS, 500))
+    };
+  };
+
+  switch (provider) {
+    case 'openai':
+      return { provider: 'openai', settings: settings('gpt-4o-mini'), apiKey, baseURL: env.LLM_BASE_URL || undefined };
+
+    case 'openai-compatible':
+    case 'local':
+      return {
+        provider: 'openai-compatible',
+        settings: settings(),
+        baseURL: env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: env.LLM_API_KEY || undefined
+      };
+
+    case 'scripted':
+      if (!env.LLM_SCRIPT_PATH) {
+        throw new Error('LLM_SCRIPT_PATH is required when LLM_PROVIDER=scripted');
+      }
+      return { provider: 'scripted', settings: settings('scripted'), scriptPath: env.LLM_SCRIPT_PATH };
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" (expected openai, openai-compatible or scripted)`);
+  }
+}
+
+// How much conversation is sent to the model; older turns beyond it are summarized
+//   LLM_CONTEXT_TOKENS          estimated tokens per request, including prompts, tools and the reply (default 16000)
+//   LLM_CONTEXT_RECENT_TOKENS   recent turns kept word for word when summarizing (default half the budget)
+export function loadContextBudget(env: NodeJS.ProcessEnv = process.env): ContextBudget {
+  const maxTokens = parseInteger('LLM_CONTEXT_TOKENS', env.LLM_CONTEXT_TOKENS, DEFAULT_CONTEXT_BUDGET.maxTokens);
+  return {
+    maxTokens,
+    recentTokens: parseInteger('LLM_CONTEXT_RECENT_TOKENS', env.LLM_CONTEXT_RECENT_TOKENS, Math.floor(maxTokens / 2))
+  };
+}
+
+// Where prompt templates are looked up, highest priority first. Files in the override directory
+// replace the bundled ones of the same name; projects/<KEY>/<name>.md applies to one project only.
+//   JIRA_PROMPTS_DIR   defaults to prompts in the data directory
+export function loadPromptDirectories(env: NodeJS.ProcessEnv = process.env): string[] {
+  return [env.JIRA_PROMPTS_DIR || path.join(loadDataDirectory(env), 'prompts'), BUNDLED_PROMPTS_DIR];
+}
+
+// Where daily token and cost totals are kept
+//   JIRA_USAGE_PATH   defaults to usage.json in the data directory
+export function loadUsagePath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.JIRA_USAGE_PATH || path.join(loadDataDirectory(env), 'usage.json');
+}
+
+// Model prices in USD per million tokens, added to or replacing the built-in OpenAI prices
+//   LLM_PRICING   JSON object, e.g. {"gpt-4o-mini":{"input":0.15,"output":0.6},"llama3.1":{"input":0,"output":0}}
+export function loadModelPrices(env: NodeJS.ProcessEnv = process.env): Record<string, ModelPrice> {
+  if (!env.LLM_PRICING || !env.LLM_PRICING.trim()) {
+    return DEFAULT_MODEL_PRICES;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(env.LLM_PRICING);
+  } catch (error) {
+    throw new Error(`LLM_PRICING is not valid JSON: ${error.message}`);
+  }
+
+  Object.entries(parsed || {}).forEach(([model, price]: [string, any]) => {
+    if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+      throw new Error(`LLM_PRICING entry for ${model} needs numeric "input" and "output" prices`);
+    }
+  });
+  return { ...DEFAULT_MODEL_PRICES, ...parsed };
+}
+
+// Optional cap on model spend per calendar day; once reached, chat continues in offline mode
+//   LLM_DAILY_SPEND_CAP_USD   e.g. 5 (unset for no cap)
+export function loadDailySpendCap(env: NodeJS.ProcessEnv = process.env): number | null {
+  if (!env.LLM_DAILY_SPEND_CAP_USD || !env.LLM_DAILY_SPEND_CAP_USD.trim()) {
+    return null;
+  }
+  return parseNumber('LLM_DAILY_SPEND_CAP_USD', env.LLM_DAILY_SPEND_CAP_USD, 0, 0, Number.MAX_SAFE_INTEGER);
+}
@@ -0,0 +1,341 @@
+import { MCPNotification, MCPRequest, MCPResponse, MCPTool } from '../types/types';
+import { MCPTransport } from '../services/transports/MCPTransport';
+import { adfToPlainText } from '../services/ADF';
+import { FakeJiraFixture, FakeJiraIssue, RecordedToolCall } from './types';
+
+const BASE_URL = 'https://eval.atlassian.net';
+
+const DEFAULT_FIXTURE: Required<FakeJiraFixture> = {
+  projects: [{ key: 'WEB', name: 'Website' }, { key: 'MOB', name: 'Mobile App' }],
+  issueTypes: ['Bug', 'Task', 'Story', 'Epic'],
+  priorities: ['Lowest', 'Low', 'Medium', 'High', 'Highest'],
+  issues: []
+};
+
+// Workflow of every fake issue: transitions by current status
+const WORKFLOW: Record<string, { id: string; name: string; to: string; resolution?: boolean }[]> = {
+  'To Do': [
+    { id: '11', name: 'Start Progress', to: 'In Progress' },
+    { id: '41', name: 'Close Issue', to: 'Done', resolution: true }
+  ],
+  'In Progress': [
+    { id: '21', name: 'Submit for Review', to: 'In Review' },
+    { id: '12', name: 'Stop Progress', to: 'To Do' }
+  ],
+  'In Review': [
+    { id: '31', name: 'Resolve', to: 'Done', resolution: true },
+    { id: '22', name: 'Request Changes', to: 'In Progress' }
+  ],
+  'Done': [
+    { id: '51', name: 'Reopen', to: 'To Do' }
+  ]
+};
+
+const RESOLUTIONS = ['Done', 'Won\'t Do', 'Duplicate', 'Cannot Reproduce'];
+
+// Issue link types by outward description
+const LINK_TYPES: Record<string, { name: string; outward: string; inward: string }> = {
+  'blocks': { name: 'Blocks', outward: 'blocks', inward: 'is blocked by' },
+  'duplicates': { name: 'Duplicate', outward: 'duplicates', inward: 'is duplicated by' },
+  'clones': { name: 'Cloners', outward: 'clones', inward: 'is cloned by' },
+  'relates to': { name: 'Relates', outward: 'relates to', inward: 'relates to' }
+};
+
+interface FakeTool {
+  definition: MCPTool;
+  lookup: boolean;
+  handle(args: Record<string, any>): any;
+}
+
+const stringProperty = (description: string) => ({ type: 'string', description });
+
+// Values of `field = "x"` or `field in ("x", "y")` clauses in a JQL query
+function jqlValues(jql: string, field: string): string[] | null {
+  const match = jql.match(new RegExp(`\\b${field}\\s+(?:=\\s*("(?:[^"\\\\]|\\\\.)*")|in\\s*\\(([^)]*)\\))`, 'i'));
+  if (!match) {
+    return null;
+  }
+  return (match[1] || match[2]).match(/"((?:[^"\\]|\\.)*)"/g).map(value => JSON.parse(value).toLowerCase());
+}
+
+// Words of `field ~ "words"` clauses in a JQL query
+function jqlText(jql: string, field: string): string[] {
+  const match = jql.match(new RegExp(`\\b${field}\\s*~\\s*("(?:[^"\\\\]|\\\\.)*")`, 'i'));
+  return match ? JSON.parse(match[1]).toLowerCase().split(/\s+/).filter(Boolean) : [];
+}
+
+// In-memory MCP server with Zapier-style Jira tools. It understands just enough JQL
+// (project, status, labels, text and summary clauses) for searches to return sensible results,
+// and records every tool call for the eval checks.
+export class FakeJiraServer implements MCPTransport {
+  readonly description = 'fake Jira server';
+  readonly sessionId: string | null = null;
+  readonly calls: RecordedToolCall[] = [];
+  private fixture: Required<FakeJiraFixture>;
+  private issues: FakeJiraIssue[];
+  private tools: Map<string, FakeTool> = new Map();
+
+  constructor(fixture: FakeJiraFixture = {}) {
+    this.fixture = { ...DEFAULT_FIXTURE, ...fixture };
+    this.issues = this.fixture.issues.map(issue => ({ ...issue, comments: [...(issue.comments || [])] }));
+    this.registerTools();
+  }
+
+  // Tool calls that acted on Jira, leaving out the metadata lookups behind the prompts
+  actionCalls(): RecordedToolCall[] {
+    return this.calls.filter(call => !call.lookup);
+  }
+
+  async request(request: MCPRequest): Promise<MCPResponse> {
+    const respond = (result: any): MCPResponse => ({ jsonrpc: '2.0', id: request.id, result });
+
+    switch (request.method) {
+      case 'initialize':
+        return respond({
+          protocolVersion: request.params?.protocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'fake-jira', version: '1.0.0' }
+        });
+      case 'tools/list':
+        return respond({ tools: [...this.tools.values()].map(tool => tool.definition) });
+      case 'tools/call':
+        return respond(this.callTool(request.params?.name, request.params?.arguments || {}));
+      default:
+        return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+    }
+  }
+
+  async send(_message: MCPNotification | MCPResponse): Promise<void> {}
+
+  setMessageHandler(): void {}
+
+  resetSession(): void {}
+
+  async close(): Promise<void> {}
+
+  private callTool(name: string, args: Record<string, any>): any {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { isError: true, content: [{ type: 'text', text: `Unknown tool ${name}` }] };
+    }
+
+    this.calls.push({ name, arguments: args, lookup: tool.lookup });
+    try {
+      return { content: [{ type: 'text', text: JSON.stringify(tool.handle(args)) }] };
+    } catch (error) {
+      return { isError: true, content: [{ type: 'text', text: error.message }] };
+    }
+  }
+
+  private addTool(
+    name: string,
+    description: string,
+    properties: Record<string, any>,
+    required: string[],
+    options: { readOnly: boolean; lookup?: boolean },
+    handle: (args: Record<string, any>) => any
+  ): void {
+    this.tools.set(name, {
+      definition: {
+        name,
+        description,
+        inputSchema: { type: 'object', properties: { instructions: stringProperty('What to do'), ...properties }, required },
+        annotations: { readOnlyHint: options.readOnly }
+      },
+      lookup: options.lookup || false,
+      handle
+    });
+  }
+
+  private registerTools(): void {
+    this.addTool('jira_software_cloud_find_projects', 'Find Jira projects', {}, [], { readOnly: true, lookup: true },
+      () => ({ results: this.fixture.projects.map(project => ({ key: project.key, name: project.name })) }));
+
+    this.addTool('jira_software_cloud_find_issue_types', 'Find the issue types of a project', {
+      projectKey: stringProperty('Project key')
+    }, [], { readOnly: true, lookup: true },
+      () => ({ results: this.fixture.issueTypes.map(name => ({ name })) }));
+
+    this.addTool('jira_software_cloud_find_priorities', 'Find issue priorities', {}, [], { readOnly: true, lookup: true },
+      () => ({ results: this.fixture.priorities.map(name => ({ name })) }));
+
+    this.addTool('jira_software_cloud_find_issues_by_jql', 'Find issues with a JQL query', {
+      jql: stringProperty('JQL query'),
+      maxResults: { type: 'number' },
+      startAt: { type: 'number' },
+      nextPageToken: { type: 'string' }
+    }, ['jql'], { readOnly: true }, args => {
+      const matches = this.search(args.jql);
+      const startAt = args.startAt || 0;
+      return { issues: matches.slice(startAt, startAt + (args.maxResults || 50)).map(issue => this.toResult(issue)), startAt, total: matches.length };
+    });
+
+    this.addTool('jira_software_cloud_find_issue_by_key', 'Get one issue by its key', {
+      issueKey: stringProperty('Issue key, e.g. WEB-1')
+    }, ['issueKey'], { readOnly: true }, args => this.toResult(this.find(args.issueKey)));
+
+    this.addTool('jira_software_cloud_create_issue', 'Create a Jira issue', {
+      project: stringProperty('Project key'),
+      issuetype: stringProperty('Issue type'),
+      summary: stringProperty('Summary'),
+      description: { type: ['string', 'object'], description: 'Description text or an Atlassian Document Format document' },
+      priority: stringProperty('Priority'),
+      labels: { type: 'array', items: { type: 'string' } }
+    }, ['project', 'issuetype', 'summary'], { readOnly: false }, args => {
+      const project = String(args.project).toUpperCase();
+      const key = `${project}-${this.issues.filter(issue => issue.key.startsWith(`${project}-`)).length + 1}`;
+      const issue: FakeJiraIssue = {
+        key,
+        summary: args.summary,
+        description: args.description,
+        issueType: args.issuetype,
+        status: 'To Do',
+        priority: args.priority,
+        labels: args.labels || []
+      };
+      this.issues.push(issue);
+      return { id: String(10000 + this.issues.length), key, self: this.selfUrl(key) };
+    });
+
+    this.addTool('jira_software_cloud_update_issue', 'Update fields of an existing issue', {
+      issueKey: stringProperty('Issue key'),
+      summary: stringProperty('Summary'),
+      description: { type: ['string', 'object'], description: 'Description text or an Atlassian Document Format document' },
+      priority: stringProperty('Priority'),
+      labels: { type: 'array', items: { type: 'string' } },
+      assignee: { type: ['string', 'null'], description: 'Assignee name; null unassigns' }
+    }, ['issueKey'], { readOnly: false }, args => {
+      const issue = this.find(args.issueKey);
+      const values: Partial<Record<keyof FakeJiraIssue, unknown>> = issue;
+      const fields: (keyof FakeJiraIssue)[] = ['summary', 'description', 'priority', 'labels', 'assignee'];
+      fields.forEach(field => {
+        if (args[field] !== undefined) {
+          values[field] = args[field] === null ? undefined : args[field];
+        }
+      });
+      return this.toResult(issue);
+    });
+
+    this.addTool('jira_software_cloud_find_transitions', 'List the transitions available for an issue', {
+      issueKey: stringProperty('Issue key')
+    }, ['issueKey'], { readOnly: true }, args => ({
+      transitions: this.transitionsOf(this.find(args.issueKey)).map(transition => ({
+        id: transition.id,
+        name: transition.name,
+        to: { name: transition.to },
+        fields: transition.resolution
+          ? { resolution: { required: true, allowedValues: RESOLUTIONS.map(name => ({ name })) } }
+          : {}
+      }))
+    }));
+
+    this.addTool('jira_software_cloud_transition_issue', 'Move an issue to another status', {
+      issueKey: stringProperty('Issue key'),
+      transitionId: stringProperty('Transition id'),
+      resolution: stringProperty('Resolution'),
+      comment: stringProperty('Comment')
+    }, ['issueKey', 'transitionId'], { readOnly: false }, args => {
+      const issue = this.find(args.issueKey);
+      const transition = this.transitionsOf(issue).find(candidate => candidate.id === String(args.transitionId));
+      if (!transition) {
+        throw new Error(`Transition ${args.transitionId} is not available from ${issue.status || 'To Do'}`);
+      }
+      if (transition.resolution && !RESOLUTIONS.includes(args.resolution)) {
+        throw new Error(`Resolution is required (one of ${RESOLUTIONS.join(', ')})`);
+      }
+      issue.status = transition.to;
+      issue.resolution = transition.resolution ? args.resolution : undefined;
+      return {};
+    });
+
+    this.addTool('jira_software_cloud_find_comments', 'List the comments on an issue', {
+      issueKey: stringProperty('Issue key')
+    }, ['issueKey'], { readOnly: true }, args => ({
+      comments: this.find(args.issueKey).comments.map((comment, index) => ({
+        id: String(index + 1),
+        author: { displayName: comment.author },
+        created: comment.created,
+        body: comment.body
+      }))
+    }));
+
+    this.addTool('jira_software_cloud_add_comment', 'Add a comment to an issue', {
+      issueKey: stringProperty('Issue key'),
+      comment: { type: ['string', 'object'], description: 'Comment text or an Atlassian Document Format document' }
+    }, ['issueKey', 'comment'], { readOnly: false }, args => {
+      const issue = this.find(args.issueKey);
+      if (typeof args.comment === 'object' && args.comment?.type !== 'doc') {
+        throw new Error('comment must be text or an ADF document');
+      }
+      const comment = { author: 'Eval User', created: new Date().toISOString(), body: args.comment };
+      issue.comments.push(comment);
+      return { id: String(issue.comments.length), author: { displayName: comment.author }, created: comment.created, body: comment.body };
+    });
+  }
+
+  private transitionsOf(issue: FakeJiraIssue) {
+    return WORKFLOW[issue.status || 'To Do'] || [];
+  }
+
+  private find(key: string): FakeJiraIssue {
+    const issue = this.issues.find(candidate => candidate.key.toUpperCase() === String(key).toUpperCase());
+    if (!issue) {
+      throw new Error(`Issue ${key} does not exist`);
+    }
+    return issue;
+  }
+
+  private search(jql: string): FakeJiraIssue[] {
+    const projects = jqlValues(jql, 'project');
+    const statuses = jqlValues(jql, 'status');
+    const labels = jqlValues(jql, 'labels');
+    const textWords = jqlText(jql, 'text');
+    const summaryWords = jqlText(jql, 'summary');
+
+    return this.issues.filter(issue => {
+      const text = `${issue.summary} ${adfToPlainText(issue.description)}`.toLowerCase();
+      return (!projects || projects.includes(issue.key.split('-')[0].toLowerCase())) &&
+        (!statuses || statuses.includes((issue.status || 'To Do').toLowerCase())) &&
+        (!labels || (issue.labels || []).some(label => labels.includes(label.toLowerCase()))) &&
+        textWords.every(word => text.includes(word)) &&
+        summaryWords.every(word => issue.summary.toLowerCase().includes(word));
+    });
+  }
+
+  private selfUrl(key: string): string {
+    return `${BASE_URL}/rest/api/3/issue/${key}`;
+  }
+
+  private toResult(issue: FakeJiraIssue): any {
+    const ref = (other: FakeJiraIssue) => ({
+      key: other.key,
+      fields: { summary: other.summary, status: { name: other.status || 'To Do' } }
+    });
+    // Links are stored on one side and reported from both, as Jira does
+    const linkType = (relation: string) => LINK_TYPES[relation.toLowerCase()] || { name: relation, outward: relation, inward: relation };
+    const outward = (issue.links || []).map(link => ({ type: linkType(link.relation), outwardIssue: ref(this.find(link.key)) }));
+    const inward = this.issues.flatMap(other => (other.links || [])
+      .filter(link => link.key.toUpperCase() === issue.key.toUpperCase())
+      .map(link => ({ type: linkType(link.relation), inwardIssue: ref(other) })));
+    const parent = issue.parent ? this.find(issue.parent) : null;
+
+    return {
+      key: issue.key,
+      self: this.selfUrl(issue.key),
+      fields: {
+        summary: issue.summary,
+        description: issue.description || null,
+        issuetype: { name: issue.issueType || (parent ? 'Sub-task' : 'Task') },
+        status: { name: issue.status || 'To Do' },
+        priority: issue.priority ? { name: issue.priority } : undefined,
+        labels: issue.labels || [],
+        assignee: issue.assignee ? { displayName: issue.assignee } : null,
+        reporter: { displayName: issue.reporter || 'Eval User' },
+        resolution: issue.resolution ? { name: issue.resolution } : null,
+        parent: parent ? ref(parent) : undefined,
+        issuelinks: [...outward, ...inward],
+        subtasks: this.issues.filter(other => other.parent?.toUpperCase() === issue.key.toUpperCase()).map(ref)
+      }
+    };
+  }
+}
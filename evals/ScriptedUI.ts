@@ -0,0 +1,213 @@
+import { PassThrough } from 'stream';
+import { IssueFieldChange, JiraComment, JiraIssue, JiraIssueDetails, JiraIssueRef, JiraIssueView, JiraSearchResult, JiraTransition, OutboxEntry, RenderedPrompt, SearchNavigation, ToolCallRecord,
+  UsageReport } from '../types/types';
+import { renderADF } from '../services/ADF';
+import { UIManager } from '../ui/UIManager';
+
+// Terminal stand-in for evals: chat input and answers come from the scenario, and
+// everything the app would print is collected as plain text lines instead
+export class ScriptedUI extends UIManager {
+  readonly transcript: string[] = [];
+  private inputs: string[];
+  private answers: string[];
+  private streamedLine = '';
+
+  constructor(inputs: string[], answers: string[] = []) {
+    super(new PassThrough(), new PassThrough());
+    this.inputs = [...inputs];
+    this.answers = [...answers];
+  }
+
+  // Next chat message; "exit" once the scenario has no more turns
+  async getChatInput(): Promise<string> {
+    const input = this.inputs.length > 0 ? this.inputs.shift() : 'exit';
+    this.write(`You: ${input}`);
+    return input;
+  }
+
+  // A question the scenario did not answer is declined rather than left hanging
+  async askConfirmation(prompt: string): Promise<boolean> {
+    const answer = this.nextAnswer(prompt, 'no').toLowerCase();
+    return answer === 'y' || answer === 'yes';
+  }
+
+  async askQuestion(prompt: string, field: string): Promise<string> {
+    const answer = this.nextAnswer(prompt, '');
+    if (!answer) {
+      throw new Error(`Scenario has no answer for the ${field} question`);
+    }
+    return answer;
+  }
+
+  async askQuestionWithDefault(prompt: string, current: string): Promise<string> {
+    return this.nextAnswer(prompt, '') || current;
+  }
+
+  // One answer holds the whole text; JSON "\n" escapes give it several lines
+  async askMultiline(prompt: string): Promise<string> {
+    return this.nextAnswer(prompt, '');
+  }
+
+  async askPageNavigation(): Promise<SearchNavigation> {
+    return { action: 'quit' };
+  }
+
+  async getUserChoice(optionCount: number): Promise<number> {
+    const choice = parseInt(this.nextAnswer(`Enter your choice (1-${optionCount}):`, ''));
+    if (!(choice >= 1 && choice <= optionCount)) {
+      throw new Error(`Scenario has no valid menu choice (1-${optionCount})`);
+    }
+    return choice;
+  }
+
+  async waitForReturn(): Promise<void> {}
+
+  async showLoadingAnimation(message: string = 'Processing'): Promise<void> {
+    this.write(`${message}...`);
+  }
+
+  writeStreamed(text: string): void {
+    const lines = (this.streamedLine + text).split('\n');
+    this.streamedLine = lines.pop();
+    lines.filter(line => line.trim()).forEach(line => this.transcript.push(line.trimEnd()));
+  }
+
+  showIssueSummary(issue: Partial<JiraIssue>): void {
+    this.write(`Issue summary: ${JSON.stringify(issue)}`);
+  }
+
+  showIssueDetails(issue: JiraIssueDetails): void {
+    this.write(`Issue details: ${JSON.stringify(issue)}`);
+  }
+
+  // The rendered description keeps its layout so scenarios can check headings, lists and tables
+  showIssueView(issue: JiraIssueView, url?: string): void {
+    const ref = (other: JiraIssueRef) => `${other.key}: ${other.summary} [${other.status}]`;
+    this.write(`Issue ${issue.key}: ${issue.summary}`);
+    this.write(`  ${issue.issueType} | ${issue.status}${issue.resolution ? ` (${issue.resolution})` : ''} | Priority ${issue.priority || 'None'}`);
+    this.write(`  Assignee: ${issue.assignee || 'Unassigned'} | Reporter: ${issue.reporter || 'Unknown'} | Labels: ${issue.labels.join(', ') || 'None'}`);
+    if (issue.parent) {
+      this.write(`  Parent: ${ref(issue.parent)}`);
+    }
+    renderADF(issue.descriptionDocument).forEach(rendered => this.write(`  | ${rendered.text}`));
+    issue.links.forEach(link => this.write(`  Link: ${link.relation} ${ref(link)}`));
+    issue.subtasks.forEach(subtask => this.write(`  Subtask: ${ref(subtask)}`));
+    if (url) {
+      this.write(`  URL: ${url}`);
+    }
+  }
+
+  showIssueChanges(issueKey: string, changes: IssueFieldChange[]): void {
+    const format = (value: string | string[] | null) => Array.isArray(value) ? value.join(', ') : value || 'None';
+    this.write(`Changes to ${issueKey}:`);
+    changes.forEach(change => this.write(`  ${change.field}: - ${format(change.from)} + ${format(change.to)}`));
+  }
+
+  showTransitions(issue: JiraIssueDetails, transitions: JiraTransition[]): void {
+    this.write(`${issue.key} is ${issue.status}; transitions: ${transitions.map((transition, index) => `${index + 1}. ${transition.name} → ${transition.toStatus}`).join(', ')}`);
+  }
+
+  showSearchResults(issues: JiraSearchResult[]): void {
+    this.write(issues.length === 0 ? 'No issues found.' : `Found ${issues.length} issue(s):`);
+    issues.forEach(issue => this.write(`  ${issue.key}: ${issue.fields.summary} [${issue.fields.status.name}]`));
+  }
+
+  showSimilarIssues(issues: JiraSearchResult[]): void {
+    this.write(`Similar issues: ${issues.map(issue => issue.key).join(', ')}`);
+  }
+
+  showDuplicateOptions(issues: JiraSearchResult[]): void {
+    const comment = issues.map((issue, index) => `${index + 2}. Comment on ${issue.key}`);
+    const view = issues.map((issue, index) => `${issues.length + index + 2}. View ${issue.key}`);
+    this.write(`Options: 1. Create anyway, ${[...comment, ...view].join(', ')}, ${issues.length * 2 + 2}. Cancel`);
+  }
+
+  showComments(issueKey: string, comments: JiraComment[]): void {
+    this.write(comments.length === 0 ? `${issueKey} has no comments yet.` : `Comments on ${issueKey}:`);
+    comments.forEach(comment => this.write(`  ${comment.author} (${comment.created}): ${comment.body.replace(/\n/g, ' / ')}`));
+  }
+
+  showCommentPreview(issueKey: string, text: string): void {
+    this.write(`New comment on ${issueKey}: ${text.replace(/\n/g, ' / ')}`);
+  }
+
+  showOutboxEntries(entries: OutboxEntry[]): void {
+    entries.forEach(entry => this.write(`Outbox: [${entry.issue.project}] ${entry.issue.title}`));
+  }
+
+  showToolCall(name: string, args: Record<string, any>, readOnly: boolean): void {
+    this.write(`Tool call${readOnly ? '' : ' (changes Jira)'}: ${name} ${JSON.stringify(args)}`);
+  }
+
+  showToolResult(record: ToolCallRecord): void {
+    this.write(`Tool ${record.name}: ${record.status}`);
+  }
+
+  showPrompt(prompt: RenderedPrompt): void {
+    this.write(`Prompt ${prompt.name} (version ${prompt.version})`);
+  }
+
+  showUsageReport(report: UsageReport): void {
+    this.write(`Usage: ${report.session.requests} requests`);
+  }
+
+  showSuccess(message: string, issueKey?: string, url?: string): void {
+    this.write([message, issueKey, url].filter(Boolean).join(' '));
+  }
+
+  showError(message: string): void {
+    this.write(`Error: ${message}`);
+  }
+
+  showWarning(message: string): void {
+    this.write(`Warning: ${message}`);
+  }
+
+  showInfo(message: string): void {
+    this.write(message);
+  }
+
+  showWelcomeMessage(): void {}
+
+  showChatHeader(): void {}
+
+  showSearchHeader(): void {}
+
+  showIssueCreationHeader(): void {}
+
+  showIssueUpdateHeader(): void {}
+
+  showIssueViewHeader(): void {}
+
+  showTransitionHeader(): void {}
+
+  showCommentsHeader(): void {}
+
+  showOutboxHeader(): void {}
+
+  showExitMessage(): void {}
+
+  close(): void {
+    this.flushStreamed();
+    super.close();
+  }
+
+  private nextAnswer(prompt: string, fallback: string): string {
+    const answer = this.answers.length > 0 ? this.answers.shift() : fallback;
+    this.write(`${prompt.trim()} ${answer}`);
+    return answer.trim();
+  }
+
+  private write(text: string): void {
+    this.flushStreamed();
+    this.transcript.push(...text.split('\n').map(line => line.trimEnd()).filter(line => line.length > 0));
+  }
+
+  private flushStreamed(): void {
+    if (this.streamedLine) {
+      const line = this.streamedLine;
+      this.streamedLine = '';
+      this.transcript.push(line.trimEnd());
+    }
+  }
+}
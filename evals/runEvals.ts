@@ -0,0 +1,130 @@
+import * as dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { LLMProvider } from '../services/llm/LLMProvider';
+import { createLLMProvider } from '../services/llm/createLLMProvider';
+import { loadLLMConfig } from '../config/config';
+import { runScenario } from './runScenario';
+import { EvalScenario, ScenarioResult } from './types';
+
+// Replays the golden transcripts in evals/scenarios and reports accuracy per scenario.
+//
+//   npm run eval                      scripted model replies, deterministic (also part of npm test)
+//   npm run eval -- --live            the model configured in .env (LLM_PROVIDER etc.)
+//   npm run eval -- create --verbose  only scenarios whose file name contains "create",
+//                                     printing every transcript
+//
+// --min-accuracy=0.9 lets live runs pass below 100%; the exit code is 1 when any
+// scenario scores below it.
+
+const SCENARIOS_DIR = path.join(__dirname, 'scenarios');
+
+interface EvalOptions {
+  live: boolean;
+  verbose: boolean;
+  minAccuracy: number;
+  filters: string[];
+}
+
+function parseArgs(args: string[]): EvalOptions {
+  const options: EvalOptions = { live: false, verbose: false, minAccuracy: 1, filters: [] };
+
+  args.forEach(arg => {
+    if (arg === '--live') {
+      options.live = true;
+    } else if (arg === '--verbose' || arg === '-v') {
+      options.verbose = true;
+    } else if (arg.startsWith('--min-accuracy=')) {
+      const value = Number(arg.split('=')[1]);
+      if (!(value >= 0 && value <= 1)) {
+        throw new Error(`--min-accuracy must be between 0 and 1, got "${arg.split('=')[1]}"`);
+      }
+      options.minAccuracy = value;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      options.filters.push(arg.toLowerCase());
+    }
+  });
+
+  return options;
+}
+
+function loadScenarios(filters: string[]): { file: string; scenario: EvalScenario }[] {
+  return fs.readdirSync(SCENARIOS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .filter(file => filters.length === 0 || filters.some(filter => file.toLowerCase().includes(filter)))
+    .sort()
+    .map(file => {
+      let scenario: EvalScenario;
+      try {
+        scenario = JSON.parse(fs.readFileSync(path.join(SCENARIOS_DIR, file), 'utf8'));
+      } catch (error) {
+        throw new Error(`Cannot read scenario ${file}: ${error.message}`);
+      }
+      if (!Array.isArray(scenario.turns) || !scenario.expect || scenario.llm === undefined) {
+        throw new Error(`Scenario ${file} needs "turns", "llm" (replies, or null for offline) and "expect"`);
+      }
+      return { file, scenario: { ...scenario, name: scenario.name || file.replace(/\.json$/, '') } };
+    });
+}
+
+const percent = (passed: number, total: number) => total === 0 ? '-' : `${(passed / total * 100).toFixed(1)}%`;
+
+function printResult(result: ScenarioResult, verbose: boolean): void {
+  const passed = result.checks.filter(check => check.passed).length;
+  const failed = result.checks.filter(check => !check.passed);
+
+  console.log(`${failed.length === 0 ? 'PASS' : 'FAIL'}  ${result.name.padEnd(40)} ${`${passed}/${result.checks.length}`.padStart(7)}  ${percent(passed, result.checks.length).padStart(6)}`);
+  failed.forEach(check => console.log(`        ✗ ${check.name}: ${check.detail}`));
+
+  if (verbose || failed.length > 0) {
+    console.log('        --- transcript ---');
+    result.transcript.forEach(line => console.log(`        ${line}`));
+    if (result.logs.length > 0) {
+      console.log('        --- logs ---');
+      result.logs.forEach(line => console.log(`        ${line}`));
+    }
+    console.log('');
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const scenarios = loadScenarios(options.filters);
+  if (scenarios.length === 0) {
+    throw new Error(`No scenarios in ${SCENARIOS_DIR} match ${options.filters.join(', ')}`);
+  }
+
+  let liveProvider: LLMProvider | undefined;
+  if (options.live) {
+    dotenv.config();
+    liveProvider = createLLMProvider(loadLLMConfig());
+  }
+  console.log(`Running ${scenarios.length} scenario(s) with ${liveProvider ? liveProvider.description : 'scripted replies'}\n`);
+
+  const results: ScenarioResult[] = [];
+  for (const { scenario } of scenarios) {
+    const result = await runScenario(scenario, liveProvider);
+    results.push(result);
+    printResult(result, options.verbose);
+  }
+
+  const checks = results.flatMap(result => result.checks);
+  const passed = checks.filter(check => check.passed).length;
+  const belowMinimum = results.filter(result =>
+    result.checks.filter(check => check.passed).length < result.checks.length * options.minAccuracy
+  );
+
+  console.log(`\nOverall: ${passed}/${checks.length} checks (${percent(passed, checks.length)}), ` +
+    `${results.length - belowMinimum.length}/${results.length} scenarios at or above ${options.minAccuracy * 100}%`);
+
+  if (belowMinimum.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(`Eval run failed: ${error.message}`);
+  process.exitCode = 1;
+});
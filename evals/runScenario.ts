@@ -0,0 +1,173 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChatIntent, ConversationState, JiraIssue } from '../types/types';
+import { AIAgent } from '../services/AIAgent';
+import { MCPClient } from '../services/MCPClient';
+import { Outbox } from '../services/Outbox';
+import { ToolResolver } from '../services/ToolResolver';
+import { UsageTracker } from '../services/UsageTracker';
+import { LLMProvider } from '../services/llm/LLMProvider';
+import { MeteredProvider } from '../services/llm/MeteredProvider';
+import { ScriptedProvider } from '../services/llm/ScriptedProvider';
+import { ChatManager } from '../managers/ChatManager';
+import { IssueManager } from '../managers/IssueManager';
+import { OutboxManager } from '../managers/OutboxManager';
+import { FakeJiraServer } from './FakeJiraServer';
+import { ScriptedUI } from './ScriptedUI';
+import { CheckResult, EvalScenario, ExpectedToolCall, RecordedToolCall, ScenarioExpectations, ScenarioResult } from './types';
+
+// What a scenario run produced, compared against its expectations
+interface ScenarioOutcome {
+  intents: ChatIntent[];
+  submittedIssues: JiraIssue[];
+  toolCalls: RecordedToolCall[];
+  transcript: string[];
+}
+
+// Records the intent of every classified message
+class RecordingAgent extends AIAgent {
+  readonly intents: ChatIntent[] = [];
+
+  async classifyIntent(message: string, conversationState?: ConversationState): Promise<ChatIntent> {
+    const intent = await super.classifyIntent(message, conversationState);
+    this.intents.push(intent);
+    return intent;
+  }
+}
+
+// Records every issue handed over for creation, whether or not it got created
+class RecordingIssueManager extends IssueManager {
+  readonly submittedIssues: JiraIssue[] = [];
+
+  async createIssue(issue: JiraIssue, checkDuplicates: boolean = true): Promise<void> {
+    this.submittedIssues.push({ ...issue });
+    return super.createIssue(issue, checkDuplicates);
+  }
+}
+
+const normalize = (value: any): string => JSON.stringify(
+  Array.isArray(value) ? value.map(normalize).sort() : typeof value === 'string' ? value.trim().toLowerCase() : value
+);
+
+// Strings compare case-insensitively, arrays ignore order, objects only need the expected keys
+function matches(expected: any, actual: any): boolean {
+  if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    return !!actual && typeof actual === 'object' &&
+      Object.keys(expected).every(key => matches(expected[key], actual[key]));
+  }
+  return normalize(expected) === normalize(actual);
+}
+
+function describeCall(call: ExpectedToolCall | RecordedToolCall): string {
+  return typeof call === 'string' ? call : `${call.name}${call.arguments ? ` ${JSON.stringify(call.arguments)}` : ''}`;
+}
+
+// One check per expected intent, issue field, tool call and transcript snippet
+export function checkScenario(expect: ScenarioExpectations, outcome: ScenarioOutcome): CheckResult[] {
+  const checks: CheckResult[] = [];
+  const check = (name: string, passed: boolean, detail: string) => checks.push(passed ? { name, passed } : { name, passed, detail });
+
+  (expect.intents || []).forEach((expected, index) => {
+    const actual = outcome.intents[index]?.type;
+    check(`intent of turn ${index + 1}`, actual === expected, `expected ${expected}, got ${actual || 'nothing'}`);
+  });
+  if (expect.intents && outcome.intents.length > expect.intents.length) {
+    check('no unexpected turns', false, `${outcome.intents.length - expect.intents.length} more message(s) were classified`);
+  }
+
+  if (expect.issue === null) {
+    check('no issue submitted', outcome.submittedIssues.length === 0,
+      `submitted ${outcome.submittedIssues.map(issue => JSON.stringify(issue)).join(', ')}`);
+  } else if (expect.issue) {
+    const issue = outcome.submittedIssues[outcome.submittedIssues.length - 1];
+    (Object.keys(expect.issue) as (keyof JiraIssue)[]).forEach(field => {
+      const expected = expect.issue[field];
+      check(`issue ${field}`, !!issue && matches(expected, issue[field]),
+        issue ? `expected ${JSON.stringify(expected)}, got ${JSON.stringify(issue[field])}` : 'no issue was submitted');
+    });
+  }
+
+  // Expected calls must appear in order; unrelated calls may come in between
+  let cursor = 0;
+  (expect.toolCalls || []).forEach(expected => {
+    const name = typeof expected === 'string' ? expected : expected.name;
+    const args = typeof expected === 'string' ? undefined : expected.arguments;
+    const found = outcome.toolCalls.findIndex((call, index) =>
+      index >= cursor && call.name === name && (!args || matches(args, call.arguments))
+    );
+    check(`tool call ${name}`, found >= 0,
+      `expected ${describeCall(expected)} after call ${cursor}; calls made: ${outcome.toolCalls.map(describeCall).join(', ') || 'none'}`);
+    if (found >= 0) {
+      cursor = found + 1;
+    }
+  });
+
+  (expect.forbiddenToolCalls || []).forEach(name => {
+    const calls = outcome.toolCalls.filter(call => call.name === name);
+    check(`no ${name} call`, calls.length === 0, `called ${calls.length} time(s): ${calls.map(describeCall).join(', ')}`);
+  });
+
+  const transcript = outcome.transcript.join('\n').toLowerCase();
+  (expect.transcriptIncludes || []).forEach(text => {
+    check(`transcript shows "${text}"`, transcript.includes(text.toLowerCase()), 'not found in the terminal output');
+  });
+
+  return checks;
+}
+
+// Replay one scenario through the real chat stack against the fake Jira server.
+// Without a live provider the scenario's scripted replies answer; a scenario whose
+// llm is null always runs with an unreachable model to exercise offline mode.
+export async function runScenario(scenario: EvalScenario, liveProvider?: LLMProvider): Promise<ScenarioResult> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-eval-'));
+  const scripted = scenario.llm === null || !liveProvider ? new ScriptedProvider(scenario.llm || {}) : null;
+
+  const server = new FakeJiraServer(scenario.jira);
+  const mcpClient = new MCPClient(server, new ToolResolver());
+  const usageTracker = new UsageTracker(path.join(workDir, 'usage.json'));
+  const agent = new RecordingAgent(mcpClient, new MeteredProvider(scripted || liveProvider, usageTracker));
+  const ui = new ScriptedUI(scenario.turns, scenario.answers);
+  const outbox = new Outbox(path.join(workDir, 'outbox.json'));
+  const issueManager = new RecordingIssueManager(mcpClient, ui, outbox);
+  const chatManager = new ChatManager(agent, ui, issueManager, new OutboxManager(outbox, mcpClient, ui), usageTracker);
+
+  // Diagnostics the app prints directly are kept apart from the transcript
+  const logs: string[] = [];
+  const { error: consoleError, warn: consoleWarn } = console;
+  console.error = console.warn = (...args: any[]) => logs.push(args.map(String).join(' '));
+
+  let error: string | undefined;
+  try {
+    await mcpClient.connect();
+    await chatManager.startChatMode();
+  } catch (runError) {
+    error = runError.message;
+  } finally {
+    console.error = consoleError;
+    console.warn = consoleWarn;
+    ui.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  const checks = checkScenario(scenario.expect, {
+    intents: agent.intents,
+    submittedIssues: issueManager.submittedIssues,
+    toolCalls: server.actionCalls(),
+    transcript: ui.transcript
+  });
+
+  if (error) {
+    checks.unshift({ name: 'scenario ran to the end', passed: false, detail: error });
+  }
+
+  // Leftover replies mean the conversation took a different path than the script assumed
+  if (scripted && scenario.llm) {
+    const unused = Object.entries(scripted.remaining()).filter(([, count]) => count > 0);
+    checks.push(unused.length === 0
+      ? { name: 'scripted replies used up', passed: true }
+      : { name: 'scripted replies used up', passed: false, detail: unused.map(([channel, count]) => `${count} "${channel}" left`).join(', ') });
+  }
+
+  return { name: scenario.name, checks, transcript: ui.transcript, logs, error };
+}
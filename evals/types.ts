@@ -0,0 +1,79 @@
+// Types for the conversation eval harness
+
+import { ChatIntentType, JiraIssue, ScriptedReply } from '../types/types';
+
+// Issue held by the fake Jira server
+export interface FakeJiraIssue {
+  key: string;
+  summary: string;
+  description?: string | Record<string, any>;  // Plain text or an ADF document
+  issueType?: string;
+  status?: string;
+  priority?: string;
+  labels?: string[];
+  assignee?: string;
+  resolution?: string;
+  reporter?: string;
+  parent?: string;                // Key of the parent; makes this a subtask
+  links?: { relation: string; key: string }[]; // Outward links, e.g. { relation: "blocks", key: "WEB-2" }
+  comments?: FakeJiraComment[];
+}
+
+// Comment on a fake issue; bodies posted as ADF are kept as ADF
+export interface FakeJiraComment {
+  author: string;
+  created: string;
+  body: string | Record<string, any>;
+}
+
+// Initial state of the fake Jira server
+export interface FakeJiraFixture {
+  projects?: { key: string; name: string }[];
+  issueTypes?: string[];
+  priorities?: string[];
+  issues?: FakeJiraIssue[];
+}
+
+// A tools/call received by the fake Jira server
+export interface RecordedToolCall {
+  name: string;
+  arguments: Record<string, any>;
+  lookup: boolean; // Metadata lookups made to fill prompts, not actions
+}
+
+// Tool call a scenario expects: a name, or a name plus arguments that must match
+export type ExpectedToolCall = string | { name: string; arguments?: Record<string, any> };
+
+export interface ScenarioExpectations {
+  intents?: ChatIntentType[];                // Classified intent of each user turn, in order
+  issue?: Partial<JiraIssue> | null;         // Issue submitted for creation; null means none
+  toolCalls?: ExpectedToolCall[];            // In order; other calls may come in between
+  forbiddenToolCalls?: string[];             // Tools that must not be called at all
+  transcriptIncludes?: string[];             // Text that must appear in the terminal output
+}
+
+// One golden transcript: what the user types and answers, and what should happen
+export interface EvalScenario {
+  name: string;
+  description?: string;
+  jira?: FakeJiraFixture;
+  // Replies per channel for the scripted model; null simulates an unreachable AI service
+  llm: Record<string, ScriptedReply[]> | null;
+  turns: string[];                           // Chat messages, in order
+  answers?: string[];                        // Answers to confirmations and questions, in order
+  expect: ScenarioExpectations;
+}
+
+export interface CheckResult {
+  name: string;
+  passed: boolean;
+  detail?: string; // Expected and actual values when the check failed
+}
+
+export interface ScenarioResult {
+  name: string;
+  checks: CheckResult[];
+  transcript: string[];
+  logs: string[];      // console.error/warn output captured while the scenario ran
+  error?: string;      // Set when the scenario could not run to the end
+}
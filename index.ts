@@ -4,6 +4,16 @@ import { MCPClient } from './services/MCPClient';
 import { UIManager } from './ui/UIManager';
 import { IssueManager } from './managers/IssueManager';
 import { ChatManager } from './managers/ChatManager';
+import { OutboxManager } from './managers/OutboxManager';
+import { Outbox } from './services/Outbox';
+import { createTransport } from './services/transports/createTransport';
+import { ToolResolver } from './services/ToolResolver';
+import { createLLMProvider } from './services/llm/createLLMProvider';
+import { PromptLibrary } from './services/PromptLibrary';
+import { MeteredProvider } from './services/llm/MeteredProvider';
+import { UsageTracker } from './services/UsageTracker';
+import { loadMCPTransportConfig, loadToolNameOverrides, loadRetryOptions, loadOutboxPath, loadLLMConfig, loadContextBudget, loadPromptDirectories,
+  loadUsagePath, loadModelPrices, loadDailySpendCap } from './config/config';
 
 // Load environment variables
 dotenv.config();
@@ -14,22 +24,46 @@ class JiraAIAgent {
   private uiManager: UIManager;
   private issueManager: IssueManager;
   private chatManager: ChatManager;
+  private outboxManager: OutboxManager;
+  private usageTracker: UsageTracker;
 
   constructor() {
     // Initialize UI first
     this.uiManager = new UIManager();
     
-    // Initialize MCP client (no API key needed for new MCP servers)
+    // Initialize MCP client over the configured transport (Zapier over HTTP, or a local stdio server)
     this.mcpClient = new MCPClient(
-      process.env.ZAPIER_MCP_URL || 'https://mcp.zapier.com'
+      createTransport(loadMCPTransportConfig()),
+      new ToolResolver(loadToolNameOverrides()),
+      loadRetryOptions()
     );
 
-    // Initialize AI agent with MCP client
-    this.aiAgent = new AIAgent(this.mcpClient);
+    // Surface server log messages (streamed alongside responses)
+    this.mcpClient.onNotification('notifications/message', (notification) => {
+      const { level, data } = notification.params || {};
+      const text = typeof data === 'string' ? data : JSON.stringify(data);
+      if (['warning', 'error', 'critical', 'alert', 'emergency'].includes(level)) {
+        this.uiManager.showWarning(`MCP ${level}: ${text}`);
+      }
+    });
+
+    // Every model call is metered for the usage report and the optional spending cap
+    this.usageTracker = new UsageTracker(loadUsagePath(), loadModelPrices(), loadDailySpendCap());
+
+    // Initialize AI agent with MCP client, the configured model (OpenAI, a local server or a script)
+    // and prompt templates (bundled, overridable per team and per project)
+    this.aiAgent = new AIAgent(
+      this.mcpClient,
+      new MeteredProvider(createLLMProvider(loadLLMConfig()), this.usageTracker),
+      loadContextBudget(),
+      new PromptLibrary(loadPromptDirectories())
+    );
 
     // Initialize managers
-    this.issueManager = new IssueManager(this.mcpClient, this.uiManager);
-    this.chatManager = new ChatManager(this.aiAgent, this.uiManager, this.issueManager);
+    const outbox = new Outbox(loadOutboxPath());
+    this.issueManager = new IssueManager(this.mcpClient, this.uiManager, outbox);
+    this.outboxManager = new OutboxManager(outbox, this.mcpClient, this.uiManager);
+    this.chatManager = new ChatManager(this.aiAgent, this.uiManager, this.issueManager, this.outboxManager, this.usageTracker);
   }
 
   // Main application entry point
@@ -41,17 +75,15 @@ class JiraAIAgent {
 
   // Test all connections on startup
   private async testConnections(): Promise<void> {
-    this.uiManager.showInfo('🔍 Testing connections...');
+    this.uiManager.showInfo(`🔍 Testing connections (MCP via ${this.mcpClient.getTransportDescription()})...`);
     
-    // Test MCP connection first
+    // Establish the MCP session first
     let mcpConnected = false;
     try {
-      mcpConnected = await this.mcpClient.testConnection();
-      if (mcpConnected) {
-        this.uiManager.showSuccess('MCP connection successful!');
-      } else {
-        this.uiManager.showWarning('MCP connection failed. Limited functionality available.');
-      }
+      const session = await this.mcpClient.connect();
+      mcpConnected = true;
+      this.uiManager.showSuccess('MCP connection successful!');
+      this.uiManager.showInfo(`MCP server: ${session.describe()}`);
     } catch (error) {
       this.uiManager.showWarning(`MCP connection failed: ${error.message}`);
     }
@@ -59,6 +91,7 @@ class JiraAIAgent {
     // Test individual services if MCP is connected
     if (mcpConnected) {
       await this.testAvailableServices();
+      await this.outboxManager.syncIfOnline(true);
     }
     
     console.log(''); // Add spacing
@@ -67,13 +100,19 @@ class JiraAIAgent {
   // Test available services
   private async testAvailableServices(): Promise<void> {
     try {
-      // Test OpenAI (direct connection)
-      this.uiManager.showInfo('🤖 Testing AI functionality...');
+      // Test the model (direct connection, not via MCP)
+      this.uiManager.showInfo(`🤖 Testing AI functionality (${this.aiAgent.getModelDescription()})...`);
       const aiWorking = await this.aiAgent.testAIConnection();
       if (aiWorking) {
         this.uiManager.showSuccess('AI service working!');
       } else {
-        this.uiManager.showWarning('AI service not available - check OpenAI API key');
+        this.uiManager.showWarning(`AI service not available (${this.aiAgent.getOfflineReason()}) - check LLM_PROVIDER, LLM_MODEL and the API key`);
+      }
+
+      // Jira is only reachable through tools
+      if (!this.mcpClient.getSession()?.supportsTools()) {
+        this.uiManager.showWarning('MCP server does not offer tools - Jira actions unavailable');
+        return;
       }
 
       // Test Jira tools via MCP
@@ -87,16 +126,24 @@ class JiraAIAgent {
 
       // Show available tools
       try {
-        const tools = await this.mcpClient.getAvailableTools();
-        if (Array.isArray(tools) && tools.length > 0) {
-          this.uiManager.showInfo(`Available MCP tools: ${tools.join(', ')}`);
+        const registry = await this.mcpClient.getToolRegistry();
+        if (registry.size > 0) {
+          this.uiManager.showInfo(`Available MCP tools (${registry.size}): ${registry.names().join(', ')}`);
         } else {
-          this.uiManager.showInfo('MCP tools list not available');
+          this.uiManager.showInfo('MCP server reported no tools');
         }
       } catch (error) {
         this.uiManager.showWarning('Could not list available tools');
       }
 
+      // Report Jira operations with no matching tool
+      try {
+        const unresolved = (await this.mcpClient.explainToolResolution()).filter(resolution => !resolution.toolName);
+        unresolved.forEach(resolution => this.uiManager.showWarning(resolution.problem));
+      } catch (error) {
+        this.uiManager.showWarning(`Could not map Jira operations to tools: ${error.message}`);
+      }
+
     } catch (error) {
       this.uiManager.showWarning(`Service testing failed: ${error.message}`);
     }
@@ -118,8 +165,11 @@ class JiraAIAgent {
   private async runMainLoop(): Promise<void> {
     while (true) {
       try {
-        this.uiManager.showMainMenu();
-        const choice = await this.uiManager.getUserChoice();
+        // Submit issues queued while Jira was unreachable
+        await this.outboxManager.syncIfOnline();
+
+        this.uiManager.showMainMenu(this.outboxManager.getQueuedCount());
+        const choice = await this.uiManager.getUserChoice(10);
         
         switch (choice) {
           case 1:
@@ -133,11 +183,41 @@ class JiraAIAgent {
             break;
             
           case 3:
-            await this.chatManager.startChatMode();
+            await this.issueManager.viewIssueGuided();
+            await this.uiManager.waitForReturn();
             break;
             
           case 4:
-            this.exit();
+            await this.issueManager.updateIssueGuided();
+            await this.uiManager.waitForReturn();
+            break;
+            
+          case 5:
+            await this.issueManager.transitionIssueGuided();
+            await this.uiManager.waitForReturn();
+            break;
+            
+          case 6:
+            await this.issueManager.commentsGuided();
+            await this.uiManager.waitForReturn();
+            break;
+            
+          case 7:
+            await this.chatManager.startChatMode();
+            break;
+            
+          case 8:
+            await this.outboxManager.showOutbox();
+            await this.uiManager.waitForReturn();
+            break;
+            
+          case 9:
+            this.uiManager.showUsageReport(this.usageTracker.report());
+            await this.uiManager.waitForReturn();
+            break;
+            
+          case 10:
+            await this.exit();
             return;
             
           default:
@@ -155,7 +235,8 @@ class JiraAIAgent {
   }
 
   // Clean application exit
-  private exit(): void {
+  private async exit(): Promise<void> {
+    await this.mcpClient.close();
     this.uiManager.showExitMessage();
     this.uiManager.close();
     process.exit(0);
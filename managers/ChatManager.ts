@@ -1,18 +1,30 @@
-import { ConversationState, JiraIssue } from '../types/types';
+import { ChatIntent, ConversationState, EditableIssueField, JiraIssue, JiraSearchResult, ToolCallHooks } from '../types/types';
 import { AIAgent } from '../services/AIAgent';
 import { UIManager } from '../ui/UIManager';
 import { IssueManager } from '../managers/IssueManager';
+import { OutboxManager } from '../managers/OutboxManager';
+import { JQLBuilder } from '../services/JQLBuilder';
+import { SEARCH_QUERY_FIELD } from '../services/OfflineAssistant';
+import { proposeChange, toEditableField } from '../services/IssueChanges';
+import { findResolution, findTransition } from '../services/Transitions';
+import { UsageTracker } from '../services/UsageTracker';
 
 export class ChatManager {
   private aiAgent: AIAgent;
   private uiManager: UIManager;
   private issueManager: IssueManager;
+  private outboxManager: OutboxManager;
+  private usageTracker: UsageTracker;
   private conversationState: ConversationState;
+  private offlineNoticeShown = false;
+  private lastSearchResults: JiraSearchResult[] = [];
 
-  constructor(aiAgent: AIAgent, uiManager: UIManager, issueManager: IssueManager) {
+  constructor(aiAgent: AIAgent, uiManager: UIManager, issueManager: IssueManager, outboxManager: OutboxManager, usageTracker: UsageTracker) {
     this.aiAgent = aiAgent;
     this.uiManager = uiManager;
     this.issueManager = issueManager;
+    this.outboxManager = outboxManager;
+    this.usageTracker = usageTracker;
     this.resetConversationState();
   }
 
@@ -42,17 +54,43 @@ export class ChatManager {
         if (!userInput) {
           continue;
         }
+
+        // Review issues queued while Jira was unreachable
+        if (userInput.toLowerCase() === '/outbox') {
+          await this.outboxManager.showOutbox();
+          this.uiManager.showInfo('\nBack in chat mode. What else can I help you with?');
+          continue;
+        }
         
-        // Get AI response
-        const aiResponse = await this.aiAgent.getResponse(userInput, this.conversationState);
-        
-        // Display AI response with typewriter effect
-        process.stdout.write('\nAgent: ');
-        await this.uiManager.typewriterEffect(aiResponse);
-        process.stdout.write('\n\n');
+        // Token and cost totals
+        if (userInput.toLowerCase() === '/usage') {
+          this.uiManager.showUsageReport(this.usageTracker.report());
+          continue;
+        }
+
+        // Print a rendered prompt: /prompt [system|extraction|intent] [PROJECT]
+        if (/^\/prompt\b/i.test(userInput)) {
+          await this.showPrompt(userInput.split(/\s+/).slice(1));
+          continue;
+        }
+
+        // Open a result of the last search by its number: "open 2"
+        const openResult = userInput.match(/^(?:open|view|show)\s+#?(\d+)$/i);
+        if (openResult && this.lastSearchResults.length > 0) {
+          await this.openSearchResult(parseInt(openResult[1]), userInput);
+          continue;
+        }
+
+        // Drop the issue draft on request
+        if (this.conversationState.isCreatingIssue && /^(cancel|stop|never ?mind|start over)$/i.test(userInput)) {
+          this.resetConversationState();
+          this.uiManager.showInfo('Issue draft discarded. What else can I help you with?\n');
+          continue;
+        }
         
-        // Handle issue creation flow
-        await this.handleIssueCreationFlow(userInput, aiResponse);
+        // Work out what the user wants and route it
+        const intent = await this.aiAgent.classifyIntent(userInput, this.conversationState);
+        await this.dispatchIntent(intent, userInput);
         
       } catch (error) {
         this.uiManager.showError(`Error: ${error.message}`);
@@ -60,26 +98,296 @@ export class ChatManager {
     }
   }
 
+  // Show the final prompt text the model receives, defaulting to the draft's project
+  private async showPrompt(args: string[]): Promise<void> {
+    const names = ['system', 'extraction', 'intent'];
+    const name = names.includes((args[0] || '').toLowerCase()) ? args.shift().toLowerCase() : 'system';
+    const project = args[0] || this.conversationState.currentIssue.project || null;
+
+    try {
+      this.uiManager.showPrompt(await this.aiAgent.renderPrompt(name, project));
+    } catch (error) {
+      this.uiManager.showError(`Could not render prompt: ${error.message}`);
+    }
+  }
+
+  // Route a classified message to the flow that handles it
+  private async dispatchIntent(intent: ChatIntent, userMessage: string): Promise<void> {
+    // A request for search terms only applies to the next message
+    if (this.conversationState.pendingField === SEARCH_QUERY_FIELD) {
+      this.conversationState.pendingField = null;
+    }
+
+    switch (intent.type) {
+      case 'create':
+        // Update the issue draft first so the reply can follow up on what is missing
+        await this.handleIssueCreationFlow(userMessage);
+        await this.respond(userMessage);
+
+        // Offer to create the issue once every field is known with enough confidence
+        if (this.isIssueDraftReady()) {
+          await this.handleIssueCompletion();
+        }
+        break;
+
+      case 'search':
+        if (intent.args.query || intent.args.project || intent.args.status || intent.args.assignee) {
+          await this.handleSearch(intent, userMessage);
+        } else {
+          await this.respond(userMessage);
+        }
+        break;
+
+      case 'transition':
+        if (intent.args.issueKey) {
+          await this.handleTransition(intent, userMessage);
+        } else {
+          await this.respond(userMessage);
+        }
+        break;
+
+      case 'view':
+        if (intent.args.issueKey) {
+          await this.handleView(intent.args.issueKey.toUpperCase(), userMessage);
+        } else {
+          await this.respond(userMessage);
+        }
+        break;
+
+      case 'comment':
+        if (intent.args.issueKey) {
+          await this.handleComment(intent, userMessage);
+        } else {
+          await this.respond(userMessage);
+        }
+        break;
+
+      case 'update':
+      case 'assign':
+        // A single clear change is applied after a diff; anything else goes to the model
+        if (intent.args.issueKey && this.requestedChange(intent)) {
+          await this.handleUpdate(intent, userMessage);
+        } else {
+          await this.respond(userMessage);
+        }
+        break;
+
+      default:
+        // Other actions go to the model, which can act through the MCP tools
+        await this.respond(userMessage);
+    }
+  }
+
+  // Stream the AI response to the terminal; Ctrl+C stops it and returns to the chat prompt
+  private async respond(userMessage: string): Promise<void> {
+    const controller = new AbortController();
+    const stopListening = this.uiManager.onInterrupt(() => controller.abort());
+    let streamed = false;
+
+    this.uiManager.writeStreamed('\nAgent: ');
+    try {
+      const aiResponse = await this.aiAgent.getResponse(userMessage, this.conversationState, this.toolCallHooks(), {
+        onToken: text => {
+          streamed = true;
+          this.uiManager.writeStreamed(text);
+        },
+        signal: controller.signal
+      });
+
+      // Fallback messages are not streamed
+      if (!streamed) {
+        this.uiManager.writeStreamed(aiResponse);
+      }
+    } finally {
+      stopListening();
+    }
+    this.uiManager.writeStreamed('\n\n');
+
+    if (controller.signal.aborted) {
+      this.uiManager.showWarning('Response interrupted.');
+    }
+
+    // Say once per outage why the answers have become simpler
+    if (this.aiAgent.isOffline() && !this.offlineNoticeShown) {
+      this.uiManager.showWarning(`AI service unavailable (${this.aiAgent.getOfflineReason()}) - continuing in offline mode. Issue creation and search still work.\n`);
+    }
+    this.offlineNoticeShown = this.aiAgent.isOffline();
+  }
+
+  // Run a search directly and note the results in the conversation for follow-up questions
+  private async handleSearch(intent: ChatIntent, userMessage: string): Promise<void> {
+    const jql = new JQLBuilder()
+      .project(intent.args.project)
+      .status(intent.args.status)
+      .text(intent.args.query || '')
+      .orderBy('updated', 'DESC');
+    if (intent.args.assignee) {
+      jql.assignee(/^(me|myself|i)$/i.test(intent.args.assignee) ? 'currentUser' : intent.args.assignee);
+    }
+
+    const issues = await this.issueManager.searchAndShow(jql);
+    this.lastSearchResults = issues;
+    if (issues.length > 0) {
+      this.uiManager.showInfo('Type "open" and a result number to see the whole issue.\n');
+    }
+
+    this.aiAgent.addToHistory({ role: 'user', content: userMessage });
+    this.aiAgent.addToHistory({
+      role: 'assistant',
+      content: issues.length > 0
+        ? `Search results shown to the user: ${issues.map(issue => `${issue.key} (${issue.fields.summary})`).join('; ')}`
+        : 'The search found no matching issues.'
+    });
+  }
+
+  // Show one issue in full and note its main fields for follow-up questions
+  private async handleView(key: string, userMessage: string): Promise<void> {
+    const issue = await this.issueManager.viewIssue(key);
+
+    this.aiAgent.addToHistory({ role: 'user', content: userMessage });
+    this.aiAgent.addToHistory({
+      role: 'assistant',
+      content: issue
+        ? `Showed ${issue.key} (${issue.issueType}, ${issue.status}, priority ${issue.priority || 'none'}, ` +
+          `assigned to ${issue.assignee || 'nobody'}): ${issue.summary}. Description: ${issue.description || '(empty)'}`
+        : `Could not open ${key}.`
+    });
+  }
+
+  private async openSearchResult(number: number, userMessage: string): Promise<void> {
+    const result = this.lastSearchResults[number - 1];
+    if (!result) {
+      this.uiManager.showWarning(`The last search listed ${this.lastSearchResults.length} issue(s); there is no result ${number}.`);
+      return;
+    }
+    await this.handleView(result.key, userMessage);
+  }
+
+  // Field and value named by an update or assign request, if it names an editable field
+  private requestedChange(intent: ChatIntent): { field: EditableIssueField; value: string } | null {
+    const field = intent.type === 'assign' ? 'assignee' : toEditableField(intent.args.field);
+    const value = intent.type === 'assign' ? intent.args.assignee : intent.args.value;
+    return field && value ? { field, value } : null;
+  }
+
+  // Apply a change such as "bump PROJ-12 to High" and note the outcome for follow-up questions
+  private async handleUpdate(intent: ChatIntent, userMessage: string): Promise<void> {
+    const { field, value } = this.requestedChange(intent);
+    const current = await this.issueManager.fetchIssue(intent.args.issueKey.toUpperCase());
+    if (!current) {
+      return;
+    }
+
+    const proposed = proposeChange(current, field, value);
+    const updated = await this.issueManager.updateIssue(current, proposed);
+
+    this.aiAgent.addToHistory({ role: 'user', content: userMessage });
+    this.aiAgent.addToHistory({
+      role: 'assistant',
+      content: updated
+        ? `Updated ${current.key}: ${field} is now ${JSON.stringify(proposed[field])}.`
+        : `${current.key} was not changed.`
+    });
+  }
+
+  // Move an issue as asked ("move PROJ-42 to In Review"); without a clear target, offer the allowed transitions
+  private async handleTransition(intent: ChatIntent, userMessage: string): Promise<void> {
+    const issue = await this.issueManager.fetchIssue(intent.args.issueKey.toUpperCase());
+    const transitions = issue ? await this.issueManager.fetchTransitions(issue) : null;
+    if (!transitions) {
+      return;
+    }
+
+    let transition = intent.args.status ? findTransition(transitions, intent.args.status) : null;
+    if (!transition) {
+      if (intent.args.status) {
+        this.uiManager.showInfo(`${issue.key} cannot go to "${intent.args.status}" from ${issue.status}. These moves are possible:`);
+      }
+      transition = await this.issueManager.chooseTransition(issue, transitions);
+    }
+
+    let moved = false;
+    if (transition) {
+      // A resolution is only sent to transitions that take one; an unknown value is asked for again
+      const takesResolution = transition.requiresResolution || transition.resolutions.length > 0;
+      const resolution = takesResolution && intent.args.value
+        ? (transition.resolutions.length > 0 ? findResolution(transition.resolutions, intent.args.value) : intent.args.value)
+        : null;
+      moved = await this.issueManager.transitionIssue(issue, transition, {
+        resolution: resolution || undefined,
+        comment: intent.args.comment || undefined
+      });
+    }
+
+    this.aiAgent.addToHistory({ role: 'user', content: userMessage });
+    this.aiAgent.addToHistory({
+      role: 'assistant',
+      content: moved ? `Moved ${issue.key} to ${transition.toStatus}.` : `${issue.key} stays in ${issue.status}.`
+    });
+  }
+
+  // Post the comment given in the message, or show the comments and offer to add one
+  private async handleComment(intent: ChatIntent, userMessage: string): Promise<void> {
+    const key = intent.args.issueKey.toUpperCase();
+    let posted = false;
+    let shown: number | null = null;
+
+    if (intent.args.comment) {
+      posted = await this.issueManager.addComment(key, intent.args.comment);
+    } else {
+      const comments = await this.issueManager.showComments(key);
+      if (!comments) {
+        return;
+      }
+      shown = comments.length;
+      if (await this.uiManager.askConfirmation(`Add a comment to ${key}? (yes/no): `)) {
+        posted = await this.issueManager.addComment(key);
+      }
+    }
+
+    this.aiAgent.addToHistory({ role: 'user', content: userMessage });
+    this.aiAgent.addToHistory({
+      role: 'assistant',
+      content: [
+        shown !== null ? `Showed the ${shown} comment(s) on ${key}.` : '',
+        posted ? `Added a comment to ${key}.` : intent.args.comment ? `No comment was added to ${key}.` : ''
+      ].filter(Boolean).join(' ')
+    });
+  }
+
+  // Show every tool call in the terminal and ask before anything that changes Jira
+  private toolCallHooks(): ToolCallHooks {
+    return {
+      onToolCall: (name, args, readOnly) => this.uiManager.showToolCall(name, args, readOnly),
+      confirmToolCall: (name) => this.uiManager.askConfirmation(`Allow ${name} to run? (yes/no): `),
+      onToolResult: (record) => this.uiManager.showToolResult(record)
+    };
+  }
+
   // Handle issue creation flow based on conversation
-  private async handleIssueCreationFlow(userMessage: string, aiResponse: string): Promise<void> {
-    // Detect if user wants to create an issue
-    if (this.aiAgent.detectIssueCreationIntent(userMessage) && !this.conversationState.isCreatingIssue) {
+  private async handleIssueCreationFlow(userMessage: string): Promise<void> {
+    if (!this.conversationState.isCreatingIssue) {
       this.conversationState.isCreatingIssue = true;
       this.conversationState.currentIssue = {};
     }
     
-    // Extract issue information from conversation if we're creating an issue
-    if (this.conversationState.isCreatingIssue) {
-      this.conversationState.currentIssue = this.aiAgent.extractIssueInformation(
-        userMessage, 
-        this.conversationState.currentIssue
-      );
-      
-      // Check if we have all required fields
-      if (this.aiAgent.isIssueComplete(this.conversationState.currentIssue)) {
-        await this.handleIssueCompletion();
-      }
-    }
+    // Extract issue information from the whole conversation
+    const extraction = await this.aiAgent.extractIssueFields(
+      userMessage, 
+      this.conversationState.currentIssue,
+      this.conversationState.pendingField
+    );
+
+    this.conversationState.currentIssue = extraction.issue;
+    this.conversationState.fieldConfidence = extraction.confidence;
+    this.conversationState.pendingField = this.aiAgent.getFollowUpField(extraction);
+  }
+
+  // All required fields collected and nothing left to confirm
+  private isIssueDraftReady(): boolean {
+    return this.conversationState.isCreatingIssue &&
+      this.conversationState.pendingField === null &&
+      this.aiAgent.isIssueComplete(this.conversationState.currentIssue);
   }
 
   // Handle issue completion
@@ -117,7 +425,8 @@ export class ChatManager {
       isCreatingIssue: false,
       currentIssue: {},
       pendingField: null,
-      awaitingConfirmation: false
+      awaitingConfirmation: false,
+      fieldConfidence: {}
     };
   }
 
@@ -150,8 +459,17 @@ export class ChatManager {
     this.uiManager.showInfo(`
 Available commands in chat mode:
 • "exit" - Return to main menu
+• "/outbox" - Review, edit, retry or discard issues that could not be created yet
+• Ctrl+C while the agent is answering - Stop the response and stay in chat
 • "I need to create a bug/task/story" - Start issue creation
 • "search for issues about [topic]" - Search existing issues
+• "show PROJ-12", or "open 2" after a search - View an issue in full
+• "bump PROJ-12 to High", "assign PROJ-12 to Dana" - Change an existing issue
+• "move PROJ-42 to In Review", "close PROJ-42 as Done" - Move an issue through the workflow
+• "comments on PROJ-42", "comment on PROJ-42: fixed in 2.3" - Read or add comments
+• "cancel" while creating an issue - Discard the draft
+• "/usage" - Show tokens used and what they cost
+• "/prompt [system|extraction|intent] [PROJECT]" - Print the prompt the model receives
 • Ask questions about Jira or project management
 • Request help with issue descriptions or priorities
 
@@ -1,14 +1,28 @@
-import { JiraIssue, JiraSearchResult } from '../types/types';
+import { DuplicateDecision, JiraComment, JiraIssue, JiraIssueDetails, JiraIssueView, JiraIssueUpdate, JiraSearchResult, JiraSearchPage, JiraTransition, TransitionFields } from '../types/types';
 import { MCPClient } from '../services/MCPClient';
 import { UIManager } from '../ui/UIManager';
+import { JQLBuilder } from '../services/JQLBuilder';
+import { Outbox } from '../services/Outbox';
+import { ISSUE_KEY_PATTERN, diffIssueFields, parseAssignee, parseLabels, toIssueUpdate } from '../services/IssueChanges';
+import { findResolution } from '../services/Transitions';
+import { isTransientError } from '../services/RetryPolicy';
+
+const SEARCH_PAGE_SIZE = 10;
+
+// Browser link for an issue; the API link may use the numeric id instead of the key
+export function browseUrl(issue: Pick<JiraIssueDetails, 'key' | 'self'>): string | undefined {
+  return issue.self ? issue.self.replace(/\/rest\/api\/\d+\/issue\/.*$/, `/browse/${issue.key}`) : undefined;
+}
 
 export class IssueManager {
   private mcpClient: MCPClient;
   private uiManager: UIManager;
+  private outbox: Outbox;
 
-  constructor(mcpClient: MCPClient, uiManager: UIManager) {
+  constructor(mcpClient: MCPClient, uiManager: UIManager, outbox: Outbox) {
     this.mcpClient = mcpClient;
     this.uiManager = uiManager;
+    this.outbox = outbox;
   }
 
   // Guided issue creation workflow
@@ -54,71 +68,349 @@ export class IssueManager {
     }
   }
 
-  // Create issue with duplicate checking
+  // Create issue with duplicate checking; creates that fail because Jira is unreachable are queued in the offline outbox
   async createIssue(issue: JiraIssue, checkDuplicates: boolean = true): Promise<void> {
-    try {
-      // Check for similar issues if requested
-      if (checkDuplicates) {
-        const duplicateCheckResult = await this.checkForDuplicates(issue.title);
-        if (!duplicateCheckResult) {
-          this.uiManager.showWarning('Issue creation cancelled due to duplicates.');
-          return;
-        }
+    const submissionId = MCPClient.newSubmissionId();
+
+    // Check for similar issues if requested
+    if (checkDuplicates) {
+      const decision = await this.checkForDuplicates(issue.title, issue.project);
+      if (decision.action === 'cancel') {
+        this.uiManager.showWarning('Issue creation cancelled due to duplicates.');
+        return;
+      }
+      // The report goes on the existing issue instead of a new one
+      if (decision.action === 'comment') {
+        await this.addComment(decision.issueKey, this.reportAsComment(issue), false);
+        return;
       }
+    }
 
-      // Show loading animation
-      await this.uiManager.showLoadingAnimation('Creating Jira issue');
-      
-      // Create issue via MCP
-      const result = await this.mcpClient.createJiraIssue(issue);
-      
-      // Show success message
-      this.uiManager.showSuccess(
-        'Issue created successfully!',
-        result.key,
-        result.self.replace('/rest/api/3/issue/', '/browse/')
-      );
-      
+    // Show loading animation
+    await this.uiManager.showLoadingAnimation('Creating Jira issue');
+
+    let result: any;
+    try {
+      result = await this.mcpClient.createJiraIssue(issue, submissionId);
     } catch (error) {
       this.uiManager.showError(`Failed to create issue: ${error.message}`);
-      
-      // Fallback to mock creation for demo purposes
-      this.uiManager.showWarning('Falling back to mock creation...');
-      await this.uiManager.showLoadingAnimation('Creating mock issue');
-      
-      this.uiManager.showSuccess(
-        'Mock issue created successfully!',
-        'DEMO-123',
-        'https://demo.atlassian.net/browse/DEMO-123'
-      );
+      // A rejected request would fail the same way on every retry, so only connection problems are queued
+      if (isTransientError(error)) {
+        this.queueInOutbox(submissionId, issue, error.message);
+      }
+      return;
+    }
+
+    this.uiManager.showSuccess('Issue created successfully!', result.key, browseUrl(result));
+  }
+
+  // Ask for an issue key in the guided flows; null if the answer is not one
+  private async askIssueKey(prompt: string): Promise<string | null> {
+    const key = (await this.uiManager.askQuestion(prompt, 'issue key')).toUpperCase();
+    if (!ISSUE_KEY_PATTERN.test(key)) {
+      this.uiManager.showError(`"${key}" is not an issue key.`);
+      return null;
+    }
+    return key;
+  }
+
+  // Guided update: fetch an issue, edit its fields, review the changes and apply them
+  async updateIssueGuided(): Promise<void> {
+    this.uiManager.showIssueUpdateHeader();
+
+    const key = await this.askIssueKey('Which issue do you want to update? (e.g. PROJ-123): ');
+    if (!key) {
+      return;
+    }
+
+    const current = await this.fetchIssue(key);
+    if (!current) {
+      return;
+    }
+
+    this.uiManager.showIssueDetails(current);
+    this.uiManager.showInfo('Press Enter to keep a value. Type "none" to clear the labels or unassign the issue.\n');
+
+    const proposed: JiraIssueUpdate = {
+      summary: await this.uiManager.askQuestionWithDefault('Summary: ', current.summary),
+      description: await this.uiManager.askQuestionWithDefault('Description: ', current.description),
+      priority: await this.uiManager.askQuestionWithDefault('Priority (Low, Medium, High, Critical): ', current.priority || 'None'),
+      labels: parseLabels(await this.uiManager.askQuestionWithDefault('Labels (comma-separated): ', current.labels.join(', ') || 'none')),
+      assignee: parseAssignee(await this.uiManager.askQuestionWithDefault('Assignee: ', current.assignee || 'none'))
+    };
+    // Keeping "None" for an issue without a priority is not a change
+    if (!current.priority && proposed.priority === 'None') {
+      delete proposed.priority;
+    }
+
+    await this.updateIssue(current, proposed);
+  }
+
+  // Guided view: ask for a key and show the whole issue
+  async viewIssueGuided(): Promise<void> {
+    this.uiManager.showIssueViewHeader();
+
+    const key = await this.askIssueKey('Which issue do you want to view? (e.g. PROJ-123): ');
+    if (key) {
+      await this.viewIssue(key);
+    }
+  }
+
+  // Show an issue with its links, subtasks and rendered description; null if it could not be fetched
+  async viewIssue(key: string): Promise<JiraIssueView | null> {
+    const issue = await this.fetchIssue(key);
+    if (issue) {
+      this.uiManager.showIssueView(issue, browseUrl(issue));
+    }
+    return issue;
+  }
+
+  // Fetch an issue to show or edit; reports the problem and returns null if that fails
+  async fetchIssue(key: string): Promise<JiraIssueView | null> {
+    try {
+      return await this.mcpClient.getJiraIssue(key);
+    } catch (error) {
+      this.uiManager.showError(error.message);
+      return null;
+    }
+  }
+
+  // Show the field-by-field diff and, once confirmed, send only the changed fields.
+  // Returns whether the issue was updated.
+  async updateIssue(current: JiraIssueDetails, proposed: JiraIssueUpdate): Promise<boolean> {
+    const changes = diffIssueFields(current, proposed);
+    if (changes.length === 0) {
+      this.uiManager.showInfo(`Nothing to change; ${current.key} already has these values.`);
+      return false;
+    }
+
+    this.uiManager.showIssueChanges(current.key, changes);
+    const confirmed = await this.uiManager.askConfirmation('Apply these changes? (yes/no): ');
+    if (!confirmed) {
+      this.uiManager.showWarning('Update cancelled.');
+      return false;
+    }
+
+    try {
+      await this.uiManager.showLoadingAnimation('Updating Jira issue');
+      await this.mcpClient.updateJiraIssue(current.key, toIssueUpdate(changes));
+
+      this.uiManager.showSuccess('Issue updated successfully!', current.key, browseUrl(current));
+      return true;
+    } catch (error) {
+      this.uiManager.showError(error.message);
+      return false;
+    }
+  }
+
+  // Guided workflow transition: choose from the transitions allowed in the current status
+  async transitionIssueGuided(): Promise<void> {
+    this.uiManager.showTransitionHeader();
+
+    const key = await this.askIssueKey('Which issue do you want to move? (e.g. PROJ-123): ');
+    if (!key) {
+      return;
+    }
+
+    const issue = await this.fetchIssue(key);
+    const transitions = issue ? await this.fetchTransitions(issue) : null;
+    if (!transitions) {
+      return;
+    }
+
+    const transition = await this.chooseTransition(issue, transitions);
+    if (transition) {
+      await this.transitionIssue(issue, transition);
+    }
+  }
+
+  // Transitions allowed for an issue; reports the problem and returns null if there are none
+  async fetchTransitions(issue: JiraIssueDetails): Promise<JiraTransition[] | null> {
+    try {
+      const transitions = await this.mcpClient.getTransitions(issue.key);
+      if (transitions.length === 0) {
+        this.uiManager.showWarning(`${issue.key} cannot be moved from ${issue.status} (no transitions available to you).`);
+        return null;
+      }
+      return transitions;
+    } catch (error) {
+      this.uiManager.showError(error.message);
+      return null;
+    }
+  }
+
+  // Numbered menu of transitions; null if the user cancels
+  async chooseTransition(issue: JiraIssueDetails, transitions: JiraTransition[]): Promise<JiraTransition | null> {
+    this.uiManager.showTransitions(issue, transitions);
+    const choice = await this.uiManager.getUserChoice(transitions.length + 1);
+    return transitions[choice - 1] || null;
+  }
+
+  // Collect the fields the transition requires, confirm, and run it. Returns whether the issue moved.
+  async transitionIssue(issue: JiraIssueDetails, transition: JiraTransition, fields: TransitionFields = {}): Promise<boolean> {
+    const values: TransitionFields = { ...fields };
+    if (transition.requiresResolution && !values.resolution) {
+      values.resolution = await this.askResolution(transition);
+    }
+    if (transition.requiresComment && !values.comment) {
+      values.comment = await this.uiManager.askQuestion('This transition needs a comment: ', 'comment');
+    }
+
+    const resolution = values.resolution ? ` (resolution: ${values.resolution})` : '';
+    const confirmed = await this.uiManager.askConfirmation(
+      `Move ${issue.key} from ${issue.status} to ${transition.toStatus}${resolution}? (yes/no): `
+    );
+    if (!confirmed) {
+      this.uiManager.showWarning('Transition cancelled.');
+      return false;
+    }
+
+    try {
+      await this.mcpClient.transitionJiraIssue(issue.key, transition, values);
+      this.uiManager.showSuccess(`${issue.key} moved to ${transition.toStatus}!`, issue.key, browseUrl(issue));
+      return true;
+    } catch (error) {
+      this.uiManager.showError(error.message);
+      return false;
+    }
+  }
+
+  // Ask until the answer is one of the allowed resolutions (any answer if Jira lists none)
+  private async askResolution(transition: JiraTransition): Promise<string> {
+    if (transition.resolutions.length === 0) {
+      return this.uiManager.askQuestion('Resolution: ', 'resolution');
+    }
+
+    while (true) {
+      const answer = await this.uiManager.askQuestion(`Resolution (${transition.resolutions.join(', ')}): `, 'resolution');
+      const resolution = findResolution(transition.resolutions, answer);
+      if (resolution) {
+        return resolution;
+      }
+      this.uiManager.showWarning(`"${answer}" is not one of the allowed resolutions.`);
+    }
+  }
+
+  // Guided comments: read an issue's comments, then optionally add one
+  async commentsGuided(): Promise<void> {
+    this.uiManager.showCommentsHeader();
+
+    const key = await this.askIssueKey('Which issue? (e.g. PROJ-123): ');
+    if (!key) {
+      return;
+    }
+
+    const comments = await this.showComments(key);
+    if (!comments) {
+      return;
+    }
+
+    if (await this.uiManager.askConfirmation('Add a comment? (yes/no): ')) {
+      await this.addComment(key);
+    }
+  }
+
+  // Fetch and show the comments of an issue; reports the problem and returns null if that fails
+  async showComments(key: string): Promise<JiraComment[] | null> {
+    try {
+      const comments = await this.mcpClient.getComments(key);
+      this.uiManager.showComments(key, comments);
+      return comments;
+    } catch (error) {
+      this.uiManager.showError(error.message);
+      return null;
+    }
+  }
+
+  // Post a comment, asking for the text (several lines allowed) when none is given.
+  // Shows the text and asks first unless the user already chose to comment. Returns whether it was posted.
+  async addComment(key: string, text?: string, confirm: boolean = true): Promise<boolean> {
+    const body = text?.trim() || await this.uiManager.askMultiline(`Comment for ${key} (Markdown formatting is kept):\n`);
+    if (!body) {
+      this.uiManager.showWarning('Empty comment, nothing posted.');
+      return false;
+    }
+
+    this.uiManager.showCommentPreview(key, body);
+    if (confirm && !(await this.uiManager.askConfirmation('Post this comment? (yes/no): '))) {
+      this.uiManager.showWarning('Comment cancelled.');
+      return false;
+    }
+
+    try {
+      await this.uiManager.showLoadingAnimation('Posting comment');
+      await this.mcpClient.addComment(key, body);
+      this.uiManager.showSuccess(`Comment added to ${key}!`);
+      return true;
+    } catch (error) {
+      this.uiManager.showError(error.message);
+      return false;
     }
   }
 
-  // Check for duplicate issues
-  async checkForDuplicates(title: string): Promise<boolean> {
+  // An issue report turned into a comment for an existing issue
+  private reportAsComment(issue: JiraIssue): string {
+    return [issue.title, issue.description].filter(Boolean).join('\n\n');
+  }
+
+  // Keep a failed issue on disk so it is not lost; it has not been created in Jira
+  private queueInOutbox(submissionId: string, issue: JiraIssue, error: string): void {
+    try {
+      this.outbox.add(submissionId, issue, error);
+      this.uiManager.showWarning(`The issue was NOT created in Jira. It has been saved to the offline outbox (${submissionId}).`);
+      this.uiManager.showInfo('It will be submitted automatically when the Jira connection is back, or open "Offline outbox" from the main menu.\n');
+    } catch (outboxError) {
+      this.uiManager.showError(`Could not save the issue to the offline outbox: ${outboxError.message}`);
+    }
+  }
+
+  // Check for duplicate issues among unresolved issues with a similar summary.
+  // When there are some, the user creates the issue anyway, comments on one of them instead, or cancels.
+  async checkForDuplicates(title: string, project?: string): Promise<DuplicateDecision> {
     try {
       this.uiManager.showInfo('🔍 Checking for similar existing issues...');
       
-      const similarIssues = await this.mcpClient.searchJiraIssues(title);
+      // Nothing to compare if the title has no searchable words
+      const summaryMatch = new JQLBuilder().summary(title);
+      if (summaryMatch.isEmpty()) {
+        return { action: 'create' };
+      }
+
+      const jql = new JQLBuilder()
+        .project(project)
+        .allOf(summaryMatch)
+        .excludeStatusCategory('Done')
+        .orderBy('updated', 'DESC');
+      const similarIssues = (await this.mcpClient.searchJiraIssues(jql)).slice(0, 3);
       
       if (similarIssues.length > 0) {
         this.uiManager.showSimilarIssues(similarIssues);
-        
-        const shouldContinue = await this.uiManager.askConfirmation(
-          'Do you still want to create a new issue? (yes/no): '
-        );
-        
-        return shouldContinue;
+
+        // Viewing one of them comes back to the same choices
+        while (true) {
+          this.uiManager.showDuplicateOptions(similarIssues);
+          const choice = await this.uiManager.getUserChoice(similarIssues.length * 2 + 2);
+          if (choice === 1) {
+            return { action: 'create' };
+          }
+          if (choice <= similarIssues.length + 1) {
+            return { action: 'comment', issueKey: similarIssues[choice - 2].key };
+          }
+          if (choice > similarIssues.length * 2 + 1) {
+            return { action: 'cancel' };
+          }
+          await this.viewIssue(similarIssues[choice - similarIssues.length - 2].key);
+        }
       }
       
-      return true; // No duplicates found, proceed
+      return { action: 'create' }; // No duplicates found, proceed
     } catch (error) {
       this.uiManager.showWarning('Could not check for similar issues, proceeding with creation...');
-      return true; // Proceed if duplicate check fails
+      return { action: 'create' }; // Proceed if duplicate check fails
     }
   }
 
-  // Search for issues
+  // Search for issues, browsing the results page by page
   async searchIssues(): Promise<void> {
     this.uiManager.showSearchHeader();
     
@@ -126,11 +418,78 @@ export class IssueManager {
     
     this.uiManager.showInfo('🔍 Searching Jira issues...');
     
+    const jql = new JQLBuilder()
+      .text(query)
+      .orderBy('updated', 'DESC');
+
+    // Pages already fetched, so going back does not need another request
+    const pages: JiraSearchPage[] = [];
+    let current = 0;
+
+    try {
+      pages.push(await this.mcpClient.searchJiraIssuesPage(jql, { maxResults: SEARCH_PAGE_SIZE }));
+
+      while (true) {
+        const page = pages[current];
+        this.uiManager.showSearchResults(page.issues, page, current + 1);
+
+        const hasNext = !page.isLast && page.issues.length > 0;
+        if (current === 0 && page.issues.length === 0) {
+          return;
+        }
+
+        const navigation = await this.uiManager.askPageNavigation(current > 0, hasNext, page.issues.length > 0);
+        if (navigation.action === 'quit') {
+          return;
+        }
+
+        // Results are numbered across pages; the page is shown again afterwards
+        if (navigation.action === 'open') {
+          const issue = page.issues[navigation.number - page.startAt - 1];
+          if (issue) {
+            await this.viewIssue(issue.key);
+          } else {
+            this.uiManager.showWarning(`No result ${navigation.number} on this page.`);
+          }
+          continue;
+        }
+
+        if (navigation.action === 'previous') {
+          current--;
+          continue;
+        }
+
+        // Load the next page lazily the first time it is requested
+        if (current + 1 >= pages.length) {
+          this.uiManager.showInfo('Loading more results...');
+          // Token-based pages carry no position, so the offset is counted here to keep the numbering going
+          pages.push(await this.mcpClient.searchJiraIssuesPage(jql, {
+            maxResults: SEARCH_PAGE_SIZE,
+            startAt: page.startAt + page.issues.length,
+            nextPageToken: page.nextPageToken
+          }));
+        }
+        current++;
+      }
+    } catch (error) {
+      this.uiManager.showError(`Search failed: ${error.message}`);
+    }
+  }
+
+  // Show the first page of results for a query built elsewhere (e.g. from chat)
+  async searchAndShow(jql: JQLBuilder): Promise<JiraSearchResult[]> {
+    this.uiManager.showInfo('🔍 Searching Jira issues...');
+
     try {
-      const issues = await this.mcpClient.searchJiraIssues(query);
-      this.uiManager.showSearchResults(issues);
+      const page = await this.mcpClient.searchJiraIssuesPage(jql, { maxResults: SEARCH_PAGE_SIZE });
+      this.uiManager.showSearchResults(page.issues, page, 1);
+      if (!page.isLast) {
+        this.uiManager.showInfo('More results are available through "Search existing issues" in the main menu.\n');
+      }
+      return page.issues;
     } catch (error) {
       this.uiManager.showError(`Search failed: ${error.message}`);
+      return [];
     }
   }
 
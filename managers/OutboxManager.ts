@@ -0,0 +1,202 @@
+import { JiraIssue, OutboxEntry } from '../types/types';
+import { MCPClient } from '../services/MCPClient';
+import { Outbox } from '../services/Outbox';
+import { UIManager } from '../ui/UIManager';
+import { browseUrl } from '../managers/IssueManager';
+import { isTransientError } from '../services/RetryPolicy';
+
+// Minimum time between automatic sync attempts while the connection is down
+const AUTO_SYNC_INTERVAL_MS = 60000;
+
+// How one resubmission ended: Jira unreachable means the rest of the queue would fail too
+type SubmitOutcome = 'submitted' | 'unreachable' | 'rejected';
+
+export class OutboxManager {
+  private outbox: Outbox;
+  private mcpClient: MCPClient;
+  private uiManager: UIManager;
+  private lastAutoSync: number = 0;
+
+  constructor(outbox: Outbox, mcpClient: MCPClient, uiManager: UIManager) {
+    this.outbox = outbox;
+    this.mcpClient = mcpClient;
+    this.uiManager = uiManager;
+  }
+
+  // Number of issues waiting to be submitted
+  getQueuedCount(): number {
+    try {
+      return this.outbox.size();
+    } catch {
+      return 0;
+    }
+  }
+
+  // Interactive view of queued issues
+  async showOutbox(): Promise<void> {
+    while (true) {
+      this.uiManager.showOutboxHeader();
+
+      const entries = this.outbox.list();
+      if (entries.length === 0) {
+        this.uiManager.showInfo('The outbox is empty - every issue has been submitted.\n');
+        return;
+      }
+
+      this.uiManager.showOutboxEntries(entries);
+      const answer = (await this.uiManager.askQuestion(
+        'Choose an issue number, "a" to retry all, or "b" to go back: ',
+        'selection'
+      )).toLowerCase();
+
+      if (answer === 'b' || answer === 'back') {
+        return;
+      }
+
+      if (answer === 'a' || answer === 'all') {
+        await this.submitAll(false);
+        await this.uiManager.waitForReturn();
+        continue;
+      }
+
+      const index = parseInt(answer, 10) - 1;
+      if (isNaN(index) || index < 0 || index >= entries.length) {
+        this.uiManager.showError('Invalid selection.');
+        continue;
+      }
+
+      await this.manageEntry(entries[index]);
+    }
+  }
+
+  // Submit queued issues when the connection is available; quiet when there is nothing to do
+  async syncIfOnline(force: boolean = false): Promise<void> {
+    if (this.getAutoSyncEntries().length === 0) {
+      return;
+    }
+
+    if (!force && Date.now() - this.lastAutoSync < AUTO_SYNC_INTERVAL_MS) {
+      return;
+    }
+    this.lastAutoSync = Date.now();
+
+    try {
+      await this.mcpClient.connect();
+    } catch {
+      return; // Still offline
+    }
+
+    this.uiManager.showInfo('📤 Jira connection available - submitting queued issues...');
+    await this.submitAll(true);
+  }
+
+  // Issues automatic sync may submit: everything except issues Jira already rejected
+  private getAutoSyncEntries(): OutboxEntry[] {
+    try {
+      return this.outbox.list().filter(entry => !entry.rejected);
+    } catch {
+      return [];
+    }
+  }
+
+  // Actions for a single queued issue
+  private async manageEntry(entry: OutboxEntry): Promise<void> {
+    while (true) {
+      this.uiManager.showIssueSummary(entry.issue);
+      if (entry.lastError) {
+        this.uiManager.showWarning(`Last error: ${entry.lastError}`);
+      }
+
+      const action = (await this.uiManager.askQuestion(
+        '[r]etry, [e]dit, [d]iscard, or [b]ack: ',
+        'action'
+      )).toLowerCase();
+
+      switch (action) {
+        case 'r':
+        case 'retry':
+          await this.submit(entry);
+          await this.uiManager.waitForReturn();
+          return;
+
+        case 'e':
+        case 'edit':
+          entry = { ...entry, issue: await this.editIssue(entry.issue) };
+          this.outbox.updateIssue(entry.id, entry.issue);
+          this.uiManager.showSuccess('Queued issue updated.');
+          break;
+
+        case 'd':
+        case 'discard':
+          if (await this.uiManager.askConfirmation('Discard this issue permanently? (yes/no): ')) {
+            this.outbox.remove(entry.id);
+            this.uiManager.showWarning('Queued issue discarded.');
+            return;
+          }
+          break;
+
+        case 'b':
+        case 'back':
+          return;
+
+        default:
+          this.uiManager.showError('Please choose r, e, d or b.');
+      }
+    }
+  }
+
+  private async editIssue(issue: JiraIssue): Promise<JiraIssue> {
+    this.uiManager.showInfo('Press Enter to keep the current value.\n');
+
+    return {
+      ...issue,
+      project: await this.uiManager.askQuestionWithDefault('Project: ', issue.project),
+      issueType: await this.uiManager.askQuestionWithDefault('Issue type: ', issue.issueType),
+      title: await this.uiManager.askQuestionWithDefault('Title: ', issue.title),
+      description: await this.uiManager.askQuestionWithDefault('Description: ', issue.description),
+      priority: await this.uiManager.askQuestionWithDefault('Priority: ', issue.priority)
+    };
+  }
+
+  // Submit queued issues in order, stopping once Jira is unreachable since the rest would fail too.
+  // An issue Jira rejects is kept aside and does not hold up the ones after it.
+  private async submitAll(automatic: boolean): Promise<void> {
+    const entries = automatic ? this.getAutoSyncEntries() : this.outbox.list();
+    let submitted = 0;
+
+    for (const entry of entries) {
+      const outcome = await this.submit(entry);
+      if (outcome === 'unreachable') {
+        break;
+      }
+      if (outcome === 'submitted') {
+        submitted++;
+      }
+    }
+
+    const remaining = this.getQueuedCount();
+    if (automatic && submitted > 0) {
+      this.uiManager.showInfo(`Submitted ${submitted} queued issue(s); ${remaining} still queued.\n`);
+    }
+  }
+
+  // Resubmit one entry; the submission id lets MCPClient find an issue an earlier attempt created
+  private async submit(entry: OutboxEntry): Promise<SubmitOutcome> {
+    try {
+      const result = await this.mcpClient.createJiraIssue(entry.issue, entry.id, true);
+      this.outbox.remove(entry.id);
+      this.uiManager.showSuccess(
+        `Queued issue submitted: ${entry.issue.title}`,
+        result.key,
+        browseUrl(result)
+      );
+      return 'submitted';
+    } catch (error) {
+      // Retrying a rejected issue unchanged would fail the same way, so it waits for an edit or a manual retry
+      const rejected = !isTransientError(error);
+      this.outbox.recordFailure(entry.id, error.message, rejected);
+      this.uiManager.showError(`Could not submit "${entry.issue.title}": ${error.message}`);
+      return rejected ? 'rejected' : 'unreachable';
+    }
+  }
+}
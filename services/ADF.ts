@@ -0,0 +1,145 @@
+import { ADFNode, RenderedLine, RenderedLineStyle } from '../types/types';
+import { markdownToADF } from './MarkdownToADF';
+
+// Text of a value given as a string or as ADF; blocks end up on separate lines
+export function adfToPlainText(value: any): string {
+  if (!value) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value.type === 'text') {
+    return value.text || '';
+  }
+  if (value.type === 'hardBreak') {
+    return '\n';
+  }
+  if (value.type === 'mention') {
+    return value.attrs?.text || '@someone';
+  }
+
+  const children: string[] = Array.isArray(value.content) ? value.content.map(adfToPlainText) : [];
+  const isBlockContainer = ['doc', 'bulletList', 'orderedList', 'listItem', 'blockquote', 'panel', 'table', 'tableRow'].includes(value.type);
+  return isBlockContainer ? children.join('\n').trim() : children.join('');
+}
+
+const line = (text: string, style: RenderedLineStyle = 'text'): RenderedLine => ({ text, style });
+
+// Inline content as one string. Mentions, inline code and links stay recognizable without colors.
+function inlineText(nodes: ADFNode[] = []): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': {
+        const text = node.marks?.some(mark => mark.type === 'code') ? `\`${node.text || ''}\`` : node.text || '';
+        const href = node.marks?.find(mark => mark.type === 'link')?.attrs?.href;
+        return href && href !== node.text ? `${text} (${href})` : text;
+      }
+      case 'hardBreak':
+        return '\n';
+      case 'mention': {
+        const name = node.attrs?.text || 'someone';
+        return name.startsWith('@') ? name : `@${name}`;
+      }
+      case 'emoji':
+        return node.attrs?.text || node.attrs?.shortName || '';
+      case 'inlineCard':
+        return node.attrs?.url || '';
+      case 'status':
+        return `[${node.attrs?.text || ''}]`;
+      case 'date':
+        return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+      default:
+        return inlineText(node.content);
+    }
+  }).join('');
+}
+
+// Lines of a nested block prefixed with a marker on the first line and indentation after it
+function withMarker(lines: RenderedLine[], marker: string): RenderedLine[] {
+  const indent = ' '.repeat(marker.length);
+  return lines.map((rendered, index) => ({ ...rendered, text: `${index === 0 ? marker : indent}${rendered.text}` }));
+}
+
+function renderList(node: ADFNode): RenderedLine[] {
+  const start = node.type === 'orderedList' ? Number(node.attrs?.order) || 1 : 1;
+  return (node.content || []).flatMap((item, index) => {
+    const marker = node.type === 'orderedList' ? `${start + index}. `
+      : node.type === 'taskList' ? (item.attrs?.state === 'DONE' ? '[x] ' : '[ ] ')
+      : '• ';
+    // Task items hold inline content, list items hold blocks
+    const lines = item.type === 'taskItem' ? inlineText(item.content).split('\n').map(text => line(text)) : renderBlocks(item.content, false);
+    return withMarker(lines.length > 0 ? lines : [line('')], marker);
+  });
+}
+
+// Cells padded to a common width per column, with a rule under the header row
+function renderTable(node: ADFNode): RenderedLine[] {
+  const rows = (node.content || []).map(row => (row.content || []).map(cell => ({
+    text: renderBlocks(cell.content, false).map(rendered => rendered.text.trim()).filter(Boolean).join(' '),
+    header: cell.type === 'tableHeader'
+  })));
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  const widths = Array.from({ length: columns }, (_, column) => Math.max(3, ...rows.map(row => row[column]?.text.length || 0)));
+
+  return rows.flatMap(row => {
+    const text = widths.map((width, column) => (row[column]?.text || '').padEnd(width)).join(' │ ').trimEnd();
+    const isHeader = row.length > 0 && row.every(cell => cell.header);
+    return isHeader
+      ? [line(text, 'heading'), line(widths.map(width => '─'.repeat(width)).join('─┼─'), 'rule')]
+      : [line(text, 'table')];
+  });
+}
+
+function renderBlock(node: ADFNode): RenderedLine[] {
+  switch (node.type) {
+    case 'paragraph':
+      return inlineText(node.content).split('\n').map(text => line(text));
+    case 'heading':
+      return [line(inlineText(node.content), 'heading')];
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return renderList(node);
+    case 'codeBlock': {
+      const code = (node.content || []).map(child => child.text || '').join('').replace(/\n$/, '');
+      return [
+        ...(node.attrs?.language ? [line(`  ${node.attrs.language}`, 'muted')] : []),
+        ...code.split('\n').map(text => line(`  ${text}`, 'code'))
+      ];
+    }
+    case 'blockquote':
+    case 'panel': {
+      const label = node.type === 'panel' && node.attrs?.panelType ? [line(`${node.attrs.panelType.toUpperCase()}:`, 'quote')] : [];
+      return [...label, ...renderBlocks(node.content, true)].map(rendered => line(`│ ${rendered.text}`.trimEnd(), 'quote'));
+    }
+    case 'rule':
+      return [line('─'.repeat(40), 'rule')];
+    case 'table':
+      return renderTable(node);
+    case 'mediaSingle':
+    case 'mediaGroup':
+    case 'media':
+      return [line('[attachment]', 'muted')];
+    case 'expand':
+    case 'nestedExpand':
+      return [line(`▸ ${node.attrs?.title || 'Details'}`, 'muted'), ...renderBlocks(node.content, false)];
+    default:
+      return node.content ? renderBlocks(node.content, false) : [line(inlineText([node]))];
+  }
+}
+
+// Blocks one after the other, with a blank line between them when spaced
+function renderBlocks(nodes: ADFNode[] = [], spaced: boolean): RenderedLine[] {
+  return nodes.flatMap((node, index) => [...(spaced && index > 0 ? [line('')] : []), ...renderBlock(node)]);
+}
+
+// ADF (or Markdown text) as styled terminal lines: headings, lists, code blocks, quotes,
+// tables and mentions keep their shape; the caller picks a color per style
+export function renderADF(value: any): RenderedLine[] {
+  if (!value) {
+    return [];
+  }
+  const document: ADFNode = typeof value === 'string' ? markdownToADF(value) : value;
+  return document.type === 'doc' ? renderBlocks(document.content, true) : renderBlock(document);
+}
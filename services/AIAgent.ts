@@ -1,63 +1,217 @@
-import OpenAI from 'openai';
-import { ChatMessage, ConversationState, JiraIssue } from '../types/types';
+import { ChatIntent, ChatIntentArgs, ChatIntentType, ChatMessage, ContextBudget, ConversationState, IssueExtraction, IssueField, JiraIssue, JSONSchema, LLMToolDefinition, PromptVariables, RenderedPrompt, ResponseStreamOptions, ToolCallHooks, ToolCallRecord } from '../types/types';
+import { MCPClient } from './MCPClient';
+import { ToolRegistry } from './ToolRegistry';
+import { LLMProvider } from './llm/LLMProvider';
+import { OfflineAssistant, SEARCH_QUERY_FIELD } from './OfflineAssistant';
+import { ContextWindow, DEFAULT_CONTEXT_BUDGET, estimateTextTokens } from './ContextWindow';
+import { PromptLibrary } from './PromptLibrary';
+
+// Upper bound on model/tool round trips for a single user message
+const MAX_TOOL_ROUNDS = 8;
+// OpenAI accepts at most 128 tools per request
+const MAX_TOOLS = 128;
+// Tool output fed back to the model is cut to keep the context small
+const MAX_TOOL_RESULT_CHARS = 4000;
+// After the AI service fails, requests go straight to the offline assistant for this long
+const OFFLINE_RETRY_MS = 60000;
+
+const ISSUE_FIELDS: IssueField[] = ['project', 'issueType', 'title', 'description', 'priority', 'labels'];
+const REQUIRED_FIELDS: IssueField[] = ['project', 'issueType', 'title', 'description', 'priority'];
+// Extracted values below this confidence are confirmed with the user
+const CONFIDENCE_THRESHOLD = 0.6;
+
+// Prompt variables used until (or when) live Jira metadata cannot be fetched
+const DEFAULT_PROMPT_VARIABLES: PromptVariables = {
+  projects: 'unknown (ask the user for the project key)',
+  issueTypes: 'Bug, Task, Story, Epic',
+  priorities: 'Low, Medium, High, Critical',
+  customFields: 'none',
+  project: 'none'
+};
+
+const nullableField = (type: 'string' | 'array') => ({
+  type: 'object',
+  properties: {
+    value: type === 'array'
+      ? { type: ['array', 'null'], items: { type: 'string' } }
+      : { type: ['string', 'null'] },
+    confidence: { type: 'number' }
+  },
+  required: ['value', 'confidence'],
+  additionalProperties: false
+});
+
+const EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    project: nullableField('string'),
+    issueType: nullableField('string'),
+    title: nullableField('string'),
+    description: nullableField('string'),
+    priority: nullableField('string'),
+    labels: nullableField('array')
+  },
+  required: ISSUE_FIELDS,
+  additionalProperties: false
+};
+
+const INTENT_TYPES: ChatIntentType[] = [
+  'create', 'search', 'view', 'update', 'comment', 'transition', 'assign', 'link', 'summarize', 'small_talk'
+];
+
+const EMPTY_INTENT_ARGS: ChatIntentArgs = {
+  issueKey: null,
+  project: null,
+  query: null,
+  field: null,
+  value: null,
+  status: null,
+  assignee: null,
+  comment: null,
+  linkedIssueKey: null,
+  linkType: null
+};
+
+const nullableString = { type: ['string', 'null'] };
+
+const INTENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: INTENT_TYPES },
+    confidence: { type: 'number' },
+    args: {
+      type: 'object',
+      properties: Object.keys(EMPTY_INTENT_ARGS).reduce((properties, key) => ({ ...properties, [key]: nullableString }), {}),
+      required: Object.keys(EMPTY_INTENT_ARGS),
+      additionalProperties: false
+    }
+  },
+  required: ['type', 'confidence', 'args'],
+  additionalProperties: false
+};
+
+// Raised instead of calling the model while the AI service is considered down
+export class AIServiceOfflineError extends Error {
+  constructor() {
+    super('AI service unavailable (offline mode)');
+    this.name = 'AIServiceOfflineError';
+  }
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit)}\n... (truncated)` : text;
+}
 
 export class AIAgent {
-  private openai: OpenAI;
+  private llm: LLMProvider;
+  private contextWindow: ContextWindow;
+  private mcpClient: MCPClient;
   private chatHistory: ChatMessage[] = [];
+  private toolRegistry: ToolRegistry | null = null;
+  private toolNames: Map<string, string> = new Map(); // model function name -> MCP tool name
+  private toolCallLog: ToolCallRecord[] = [];
+  private offlineAssistant = new OfflineAssistant();
+  private offlineSince: number | null = null;
+  private offlineReason: string | null = null;
+  private prompts: PromptLibrary;
+  private promptVariables: Map<string, PromptVariables> = new Map(); // by project key, '' for none
+  private systemPromptProject: string | null | undefined; // undefined until rendered with live metadata
 
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey
-    });
-
+  constructor(
+    mcpClient: MCPClient,
+    llm: LLMProvider,
+    contextBudget: ContextBudget = DEFAULT_CONTEXT_BUDGET,
+    prompts: PromptLibrary = new PromptLibrary()
+  ) {
+    this.mcpClient = mcpClient;
+    this.llm = llm;
+    this.contextWindow = new ContextWindow(llm, contextBudget);
+    this.prompts = prompts;
+    
     this.initializeSystemPrompt();
   }
 
-  // Initialize system prompt for the AI agent
+  // Initialize system prompt for the AI agent; live Jira metadata is filled in before the first reply
   private initializeSystemPrompt(): void {
-    const systemPrompt = `You are a helpful Jira AI Agent assistant. Your primary role is to help users create Jira issues through natural conversation. 
-
-Key capabilities:
-- Help users create Jira issues by gathering: project, issue type, title, description, and priority
-- Search existing Jira issues to prevent duplicates
-- Answer questions about Jira and project management
-- Provide helpful suggestions and guidance
-- Be conversational and friendly
-
-When a user wants to create an issue:
-1. Identify their intent
-2. Gather required information naturally through conversation
-3. Check for similar existing issues
-4. Confirm details before creation
-5. Guide them through the process
-
-Required fields for Jira issues:
-- Project: Which project this belongs to (project key like "PROJ")
-- Issue Type: Bug, Task, Story, Epic, etc.
-- Title: Brief summary of the issue
-- Description: Detailed explanation
-- Priority: Low, Medium, High, Critical
-
-Be natural and conversational. Don't just ask for fields in order - understand context and what they've already told you.
-
-If they say something like "I need to report a bug" or "create a task", start helping them with issue creation.
-If they want to chat about other topics, be helpful and engaging.`;
-
     this.chatHistory.push({
       role: 'system',
-      content: systemPrompt
+      content: this.prompts.render('system', this.defaultPromptVariables()).text
     });
   }
 
-  // Get AI response from OpenAI
-  async getResponse(userMessage: string, conversationState?: ConversationState): Promise<string> {
-    // Add context about current issue creation state
-    let contextualPrompt = userMessage;
-    
-    if (conversationState?.isCreatingIssue) {
-      const issueProgress = Object.keys(conversationState.currentIssue).length;
-      contextualPrompt += `\n\nContext: User is currently creating a Jira issue. Progress: ${issueProgress}/5 fields collected. Current issue data: ${JSON.stringify(conversationState.currentIssue)}`;
+  // ===== PROMPTS =====
+
+  // Render a prompt template for a project (or none) with live Jira metadata
+  async renderPrompt(name: string, project?: string | null): Promise<RenderedPrompt> {
+    const key = project ? project.toUpperCase() : null;
+    return this.prompts.render(name, await this.getPromptVariables(key), key);
+  }
+
+  // Projects, issue types, priorities and extra create fields from Jira, cached per project
+  private async getPromptVariables(project: string | null): Promise<PromptVariables> {
+    const cached = this.promptVariables.get(project || '');
+    if (cached) {
+      return cached;
     }
+
+    const names = (items: any[]) => items.map(item => item.name || item.key || String(item)).filter(Boolean).join(', ');
+    const [projects, issueTypes, priorities, customFields] = await Promise.allSettled([
+      this.mcpClient.getJiraProjects(),
+      project ? this.mcpClient.getIssueTypes(project) : Promise.resolve([]),
+      this.mcpClient.getPriorities(),
+      this.mcpClient.getExtraCreateFields()
+    ]);
+
+    const variables = this.defaultPromptVariables(project);
+    if (projects.status === 'fulfilled' && projects.value.length > 0) {
+      variables.projects = projects.value.map(item => item.name && item.key ? `${item.key} (${item.name})` : item.key || item.name).join(', ');
+    }
+    if (issueTypes.status === 'fulfilled' && issueTypes.value.length > 0) {
+      variables.issueTypes = names(issueTypes.value);
+    }
+    if (priorities.status === 'fulfilled' && priorities.value.length > 0) {
+      variables.priorities = names(priorities.value);
+    }
+    if (customFields.status === 'fulfilled' && customFields.value.length > 0) {
+      variables.customFields = customFields.value.join(', ');
+    }
+
+    this.promptVariables.set(project || '', variables);
+    return variables;
+  }
+
+  private defaultPromptVariables(project: string | null = null): PromptVariables {
+    return {
+      ...DEFAULT_PROMPT_VARIABLES,
+      project: project || DEFAULT_PROMPT_VARIABLES.project,
+      today: new Date().toISOString().slice(0, 10)
+    };
+  }
+
+  // Re-render the system prompt when the project being discussed changes (it may have its own template)
+  private async refreshSystemPrompt(project: string | null): Promise<void> {
+    const key = project ? project.toUpperCase() : null;
+    if (key === this.systemPromptProject) {
+      return;
+    }
+
+    try {
+      this.chatHistory[0] = { role: 'system', content: (await this.renderPrompt('system', key)).text };
+      this.systemPromptProject = key;
+    } catch (error) {
+      console.error('Could not render the system prompt, keeping the previous one:', error.message);
+    }
+  }
+
+  // Get AI response from the configured model, letting it call MCP tools until it answers
+  async getResponse(
+    userMessage: string,
+    conversationState?: ConversationState,
+    toolHooks: ToolCallHooks = {},
+    streamOptions: ResponseStreamOptions = {}
+  ): Promise<string> {
+    // The draft is restated on every request so summarizing history never loses it
+    const draftContext = this.describeDraft(conversationState);
     
     // Add user message to history
     this.chatHistory.push({
@@ -66,34 +220,315 @@ If they want to chat about other topics, be helpful and engaging.`;
     });
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          ...this.chatHistory,
-          {
-            role: 'user',
-            content: contextualPrompt
+      if (this.isOffline()) {
+        throw new AIServiceOfflineError();
+      }
+
+      await this.refreshSystemPrompt(conversationState?.currentIssue?.project || null);
+      // A drafted issue is created by the app once the user confirms it, so the model only
+      // gets read-only tools meanwhile; with the create tool it could file the issue twice
+      const tools = await this.getToolDefinitions(!conversationState?.isCreatingIssue);
+
+      // Summarize older turns if the request would exceed the context budget
+      const reservedTokens = estimateTextTokens(draftContext + JSON.stringify(tools)) + this.llm.settings.maxTokens;
+      this.chatHistory = await this.contextWindow.fit(this.chatHistory, reservedTokens);
+
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        // Tokens are passed to the caller as they arrive
+        const completion = await this.callModel(() => this.llm.stream({
+          messages: [
+            ...this.toProviderMessages(this.chatHistory),
+            ...(draftContext ? [{ role: 'system' as const, content: draftContext }] : [])
+          ],
+          tools
+        }, streamOptions));
+
+        if (completion.interrupted) {
+          // Keep what was shown so the model knows where the user cut it off
+          const partial = completion.content.trim();
+          this.chatHistory.push({
+            role: 'assistant',
+            content: `${partial}${partial ? '\n\n' : ''}[Response interrupted by the user]`
+          });
+          return partial;
+        }
+
+        if (completion.toolCalls.length > 0) {
+          this.chatHistory.push({
+            role: 'assistant',
+            content: completion.content,
+            toolCalls: completion.toolCalls.map(call => ({
+              ...call,
+              name: this.toolNames.get(call.name) || call.name
+            }))
+          });
+
+          for (const call of completion.toolCalls) {
+            // Only tools offered in this request may run, whatever name the model comes up with
+            const record = this.toolNames.has(call.name)
+              ? await this.executeToolCall(this.toolNames.get(call.name), call.arguments, toolHooks)
+              : this.finishToolCall({ name: call.name, arguments: {}, readOnly: false, status: 'error', result: `Error: ${call.name} is not available right now` }, toolHooks);
+            this.chatHistory.push({
+              role: 'tool',
+              toolCallId: call.id,
+              content: record.result
+            });
           }
-        ],
-        max_tokens: 500,
-        temperature: 0.7
+
+          // A Ctrl+C during a tool confirmation ends the turn before the next round
+          if (streamOptions.signal?.aborted) {
+            return '';
+          }
+          continue;
+        }
+
+        const response = completion.content || 'I apologize, but I couldn\'t process your request. Please try again.';
+        
+        // Add AI response to history
+        this.chatHistory.push({
+          role: 'assistant',
+          content: response
+        });
+        
+        return response;
+      }
+
+      const response = 'I made several tool calls without reaching an answer. Could you rephrase or narrow down the request?';
+      this.chatHistory.push({
+        role: 'assistant',
+        content: response
       });
+      return response;
+    } catch (error) {
+      if (!(error instanceof AIServiceOfflineError)) {
+        console.error('AI Service Error:', error.message);
+      }
+
+      // Keep the conversation going with the rule-based assistant
+      const fallbackResponse = this.offlineAssistant.respond(
+        this.classifyIntentByRules(userMessage, conversationState),
+        conversationState || { isCreatingIssue: false, currentIssue: {}, pendingField: null, awaitingConfirmation: false }
+      );
       
-      const response = completion.choices[0].message.content || 'I apologize, but I couldn\'t process your request. Please try again.';
-      
-      // Add AI response to history
+      // Add fallback to history
       this.chatHistory.push({
         role: 'assistant',
-        content: response
+        content: fallbackResponse
       });
       
-      return response;
+      return fallbackResponse;
+    }
+  }
+
+  // Call the model unless it recently failed; a failure switches to offline mode for a while
+  private async callModel<T>(call: () => Promise<T>): Promise<T> {
+    if (this.isOffline()) {
+      throw new AIServiceOfflineError();
+    }
+
+    try {
+      const result = await call();
+      this.offlineSince = null;
+      return result;
     } catch (error) {
-      throw new Error(`AI Service Error: ${error.message}`);
+      this.offlineSince = Date.now();
+      this.offlineReason = error.message;
+      throw error;
+    }
+  }
+
+  // Why the last model call failed, for the offline notice
+  getOfflineReason(): string {
+    return this.offlineReason || 'not reachable';
+  }
+
+  // Whether model calls are currently skipped in favour of the offline assistant
+  isOffline(): boolean {
+    return this.offlineSince !== null && Date.now() - this.offlineSince < OFFLINE_RETRY_MS;
+  }
+
+  // ===== TOOL CALLING =====
+
+  // Describe the discovered MCP tools as functions the model can call; pass false to leave out tools that change Jira
+  private async getToolDefinitions(includeWrites: boolean = true): Promise<LLMToolDefinition[]> {
+    this.toolNames.clear();
+
+    let registry: ToolRegistry;
+    try {
+      registry = await this.mcpClient.getToolRegistry();
+    } catch {
+      return []; // Chat still works without tools when MCP is down
     }
+
+    this.toolRegistry = registry;
+
+    const offered = includeWrites ? registry.list() : registry.list().filter(tool => registry.isReadOnly(tool.name));
+    return offered.slice(0, MAX_TOOLS).map(tool => {
+      // OpenAI function names are limited to [a-zA-Z0-9_-]{1,64}
+      const functionName = tool.name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+      this.toolNames.set(functionName, tool.name);
+
+      return {
+        name: functionName,
+        description: (tool.description || tool.title || tool.name).slice(0, 1024),
+        parameters: tool.inputSchema && tool.inputSchema.type === 'object'
+          ? tool.inputSchema
+          : { type: 'object', properties: {} }
+      };
+    });
   }
 
-  // Extract issue information from conversation
+  // Issue creation progress for the model; empty when no issue is being drafted
+  private describeDraft(conversationState?: ConversationState): string {
+    if (!conversationState?.isCreatingIssue) {
+      return '';
+    }
+
+    const issue = conversationState.currentIssue;
+    const issueProgress = REQUIRED_FIELDS.filter(field => issue[field]).length;
+    let context = `Context: User is currently creating a Jira issue. Progress: ${issueProgress}/${REQUIRED_FIELDS.length} fields collected. Current issue data: ${JSON.stringify(issue)}`;
+
+    const uncertain = Object.keys(conversationState.fieldConfidence || {})
+      .filter(field => conversationState.fieldConfidence[field] < CONFIDENCE_THRESHOLD);
+    if (uncertain.length > 0) {
+      context += `\nThese values were inferred and should be confirmed: ${uncertain.join(', ')}.`;
+    }
+    if (conversationState.pendingField) {
+      context += `\nAsk the user about "${conversationState.pendingField}" next, in a single natural question.`;
+    }
+    return context;
+  }
+
+  // Run one tool call through MCP; write operations need the user's approval first
+  private async executeToolCall(name: string, rawArguments: string, hooks: ToolCallHooks): Promise<ToolCallRecord> {
+    const readOnly = this.toolRegistry ? this.toolRegistry.isReadOnly(name) : false;
+
+    let args: Record<string, any>;
+    try {
+      args = rawArguments ? JSON.parse(rawArguments) : {};
+    } catch {
+      return this.finishToolCall({ name, arguments: {}, readOnly, status: 'error', result: `Error: arguments were not valid JSON: ${rawArguments}` }, hooks);
+    }
+
+    hooks.onToolCall?.(name, args, readOnly);
+
+    if (!readOnly) {
+      const approved = hooks.confirmToolCall ? await hooks.confirmToolCall(name, args) : false;
+      if (!approved) {
+        return this.finishToolCall({ name, arguments: args, readOnly, status: 'declined', result: 'The user declined this action. Do not retry it unless they ask.' }, hooks);
+      }
+    }
+
+    try {
+      const output = await this.mcpClient.callTool(name, args);
+      const text = output.text || JSON.stringify(output.data) || 'Done (no output).';
+      return this.finishToolCall({ name, arguments: args, readOnly, status: 'ok', result: truncate(text, MAX_TOOL_RESULT_CHARS) }, hooks);
+    } catch (error) {
+      return this.finishToolCall({ name, arguments: args, readOnly, status: 'error', result: `Error: ${error.message}` }, hooks);
+    }
+  }
+
+  private finishToolCall(record: ToolCallRecord, hooks: ToolCallHooks): ToolCallRecord {
+    this.toolCallLog.push(record);
+    hooks.onToolResult?.(record);
+    return record;
+  }
+
+  // Tool calls made so far in this conversation
+  getToolCallLog(): ToolCallRecord[] {
+    return [...this.toolCallLog];
+  }
+
+  // Stored history uses MCP tool names; the model knows them by their function names
+  private toProviderMessages(messages: ChatMessage[]): ChatMessage[] {
+    const nameFor = (mcpName: string) => {
+      for (const [functionName, toolName] of this.toolNames) {
+        if (toolName === mcpName) return functionName;
+      }
+      return mcpName;
+    };
+
+    return messages.map(message => message.toolCalls
+      ? { ...message, toolCalls: message.toolCalls.map(call => ({ ...call, name: nameFor(call.name) })) }
+      : message
+    );
+  }
+
+  // ===== ISSUE FIELD EXTRACTION =====
+
+  // Fill every JiraIssue field from the whole conversation using structured output.
+  // Falls back to the keyword extractor when the AI service is unavailable.
+  async extractIssueFields(latestMessage: string, currentIssue: Partial<JiraIssue>, pendingField: string | null = null): Promise<IssueExtraction> {
+    const transcript = [
+      ...this.chatHistory
+        .filter(message => (message.role === 'user' || message.role === 'assistant') && message.content)
+        .map(message => `${message.role}: ${message.content}`),
+      `user: ${latestMessage}`
+    ].join('\n');
+
+    let extracted: Record<IssueField, { value: any; confidence: number }>;
+    try {
+      const prompt = await this.renderPrompt('extraction', currentIssue.project);
+      const completion = await this.callModel(() => this.llm.complete({
+        messages: [
+          { role: 'system', content: prompt.text },
+          {
+            role: 'user',
+            content: `Fields collected so far: ${JSON.stringify(currentIssue)}\n\nConversation:\n${transcript}`
+          }
+        ],
+        responseSchema: { name: 'jira_issue_fields', schema: EXTRACTION_SCHEMA as JSONSchema },
+        temperature: 0,
+        maxTokens: 1000
+      }));
+
+      extracted = JSON.parse(completion.content || '{}');
+    } catch (error) {
+      if (!(error instanceof AIServiceOfflineError)) {
+        console.error('Field extraction failed, using keyword matching:', error.message);
+      }
+      // The answer to the pending question fills that slot; keywords may fill others
+      const answered = this.offlineAssistant.fillSlot(latestMessage, currentIssue, pendingField);
+      return this.summarizeExtraction(this.extractIssueInformation(latestMessage, answered), {});
+    }
+
+    const issue: Partial<JiraIssue> = { ...currentIssue };
+    // The model's values are only checked at runtime, so they are written through an untyped view of the draft
+    const values: Partial<Record<IssueField, unknown>> = issue;
+    const confidence: Partial<Record<IssueField, number>> = {};
+
+    ISSUE_FIELDS.forEach(field => {
+      const entry = extracted[field];
+      const hasValue = entry && entry.value !== null && entry.value !== '' &&
+        !(Array.isArray(entry.value) && entry.value.length === 0);
+
+      if (hasValue) {
+        values[field] = entry.value;
+        confidence[field] = Math.max(0, Math.min(1, Number(entry.confidence) || 0));
+      } else if (issue[field] !== undefined) {
+        // Keep what was collected earlier, e.g. through a direct answer
+        confidence[field] = 1;
+      }
+    });
+
+    return this.summarizeExtraction(issue, confidence);
+  }
+
+  // Work out which fields still need a follow-up question
+  private summarizeExtraction(issue: Partial<JiraIssue>, confidence: Partial<Record<IssueField, number>>): IssueExtraction {
+    const missing = REQUIRED_FIELDS.filter(field => !issue[field]);
+    const uncertain = ISSUE_FIELDS.filter(field =>
+      issue[field] && confidence[field] !== undefined && confidence[field] < CONFIDENCE_THRESHOLD
+    );
+    return { issue, confidence, missing, uncertain };
+  }
+
+  // Next field to ask about: missing required fields first, then uncertain ones
+  getFollowUpField(extraction: IssueExtraction): IssueField | null {
+    return extraction.missing[0] || extraction.uncertain[0] || null;
+  }
+
+  // Keyword-based extraction from the latest message, used when the AI service is unavailable
   extractIssueInformation(lastUserMessage: string, currentIssue: Partial<JiraIssue>): Partial<JiraIssue> {
     const updatedIssue = { ...currentIssue };
 
@@ -132,26 +567,118 @@ If they want to chat about other topics, be helpful and engaging.`;
     return updatedIssue;
   }
 
-  // Detect if user wants to create an issue
-  detectIssueCreationIntent(message: string): boolean {
-    const creationKeywords = [
-      'create', 'issue', 'bug', 'task', 'story', 'epic', 
-      'report', 'file', 'submit', 'new', 'jira'
-    ];
-    
-    return creationKeywords.some(keyword => 
-      message.toLowerCase().includes(keyword)
-    );
+  // ===== INTENT CLASSIFICATION =====
+
+  // Classify what the user wants, with the arguments needed to act on it
+  async classifyIntent(message: string, conversationState?: ConversationState): Promise<ChatIntent> {
+    const recentTurns = this.chatHistory
+      .filter(entry => (entry.role === 'user' || entry.role === 'assistant') && entry.content)
+      .slice(-6)
+      .map(entry => `${entry.role}: ${entry.content}`)
+      .join('\n');
+
+    const state = conversationState?.isCreatingIssue
+      ? `The user is in the middle of creating an issue (draft: ${JSON.stringify(conversationState.currentIssue)}` +
+        `${conversationState.pendingField ? `, the assistant asked about ${conversationState.pendingField}` : ''}). ` +
+        'Answers that supply or correct issue details are "create".'
+      : 'No issue is being created right now.';
+
+    try {
+      const prompt = await this.renderPrompt('intent', conversationState?.currentIssue?.project);
+      const completion = await this.callModel(() => this.llm.complete({
+        messages: [
+          { role: 'system', content: prompt.text },
+          { role: 'user', content: `${state}\n\nRecent conversation:\n${recentTurns || '(none)'}\n\nMessage to classify:\n${message}` }
+        ],
+        responseSchema: { name: 'chat_intent', schema: INTENT_SCHEMA as JSONSchema },
+        temperature: 0
+      }));
+
+      const intent: ChatIntent = JSON.parse(completion.content || '{}');
+      if (!INTENT_TYPES.includes(intent.type)) {
+        throw new Error(`unknown intent "${intent.type}"`);
+      }
+      return intent;
+    } catch (error) {
+      if (!(error instanceof AIServiceOfflineError)) {
+        console.error('Intent classification failed, using keyword rules:', error.message);
+      }
+      return this.classifyIntentByRules(message, conversationState);
+    }
+  }
+
+  // Conservative keyword classifier for when the AI service is unavailable
+  classifyIntentByRules(message: string, conversationState?: ConversationState): ChatIntent {
+    const text = message.toLowerCase();
+    const issueKey = (message.match(/\b[A-Z][A-Z0-9]+-\d+\b/) || [null])[0];
+    const args: ChatIntentArgs = { ...EMPTY_INTENT_ARGS, issueKey };
+    const intent = (type: ChatIntentType, confidence: number = 0.5): ChatIntent => ({ type, confidence, args });
+
+    // A message naming an existing issue is about that issue: "open PROJ-12", "raise priority of PROJ-12 bug"
+    if (!issueKey && (/\b(create|file|open|raise|log|report|submit)\b.*\b(issue|bug|task|story|epic|ticket)\b/.test(text) ||
+        /\b(new|another)\s+(issue|bug|task|story|epic|ticket)\b/.test(text))) {
+      return intent('create');
+    }
+    // The previous reply asked for search terms
+    if (!conversationState?.isCreatingIssue && conversationState?.pendingField === SEARCH_QUERY_FIELD) {
+      return { type: 'search', confidence: 0.5, args: { ...args, query: message.trim() } };
+    }
+    if (issueKey && /\b(comments?|reply|note)\b/.test(text)) {
+      // "comment on PROJ-1: text" or "... saying text" adds a comment; otherwise the comments are read
+      const comment = message.match(/(?::|\bsaying\b)\s*([\s\S]+?)\s*$/i);
+      return { type: 'comment', confidence: 0.5, args: { ...args, comment: comment ? comment[1].replace(/^["']|["']$/g, '') : null } };
+    }
+    if (issueKey && /\b(move|transition|close|resolve|reopen|start)\b/.test(text)) {
+      // "to In Review" names the status, otherwise the verb names the transition; "as Done" is a resolution
+      const unquote = (value: string) => value.trim().replace(/^["']|["']$/g, '');
+      const target = message.match(/\b(?:to|into)\s+(.+?)(?:\s+as\s+.+?)?[.!?]?\s*$/i);
+      const verb = text.match(/\b(close|resolve|reopen|start)\b/);
+      const resolution = message.match(/\bas\s+(.+?)[.!?]?\s*$/i);
+      return {
+        type: 'transition',
+        confidence: 0.5,
+        args: { ...args, status: target ? unquote(target[1]) : verb ? verb[1] : null, value: resolution ? unquote(resolution[1]) : null }
+      };
+    }
+    if (issueKey && /\bassign\b/.test(text)) {
+      const assignee = (message.match(/\bto\s+([\w.@-]+)[.!]?\s*$/i) || [])[1] || null;
+      return { type: 'assign', confidence: 0.5, args: { ...args, assignee } };
+    }
+    if (issueKey && /\b(link|blocks|duplicates|relates)\b/.test(text)) {
+      return intent('link');
+    }
+    if (issueKey && /\b(change|set|update|bump|rename|edit|raise|lower)\b/.test(text)) {
+      // Priority changes are common and easy to recognize; other edits need the model
+      const priority = (message.match(/\b(lowest|low|medium|high|highest|critical)\b/i) || [])[1];
+      return priority
+        ? { type: 'update', confidence: 0.5, args: { ...args, field: 'priority', value: priority.charAt(0).toUpperCase() + priority.slice(1).toLowerCase() } }
+        : intent('update');
+    }
+    if (issueKey && /\b(summar|tl;?dr|recap)/.test(text)) {
+      return intent('summarize');
+    }
+    if (issueKey) {
+      return intent('view');
+    }
+    if (/\b(search|find|look for|look up|any issues?|existing issues?)\b/.test(text)) {
+      const query = message.replace(/^.*?\b(search|find|look for|look up)\b\s*(for\s+)?(issues?\s+)?(about\s+)?/i, '').trim();
+      return { type: 'search', confidence: 0.5, args: { ...args, query: query || null } };
+    }
+    if (conversationState?.isCreatingIssue) {
+      return intent('create', 0.4);
+    }
+    return intent('small_talk', 0.4);
   }
 
   // Check if issue has all required fields
   isIssueComplete(issue: Partial<JiraIssue>): boolean {
-    const required = ['project', 'issueType', 'title', 'description', 'priority'];
-    return required.every(field => issue[field]);
+    return REQUIRED_FIELDS.every(field => issue[field]);
   }
 
   // Reset conversation history (but keep system prompt)
   resetConversation(): void {
+    this.toolCallLog = [];
+    this.systemPromptProject = undefined;
     this.chatHistory = this.chatHistory.slice(0, 1); // Keep only system prompt
   }
 
@@ -164,4 +691,24 @@ If they want to chat about other topics, be helpful and engaging.`;
   addToHistory(message: ChatMessage): void {
     this.chatHistory.push(message);
   }
-}
\ No newline at end of file
+
+  // Test AI functionality
+  async testAIConnection(): Promise<boolean> {
+    let working: boolean;
+    try {
+      working = await this.callModel(() => this.llm.testConnection());
+    } catch (error) {
+      // callModel has switched to offline mode with the reason (e.g. the spending cap)
+      return false;
+    }
+    // Start in offline mode rather than waiting on the first chat message to fail
+    this.offlineSince = working ? null : Date.now();
+    this.offlineReason = working ? null : 'connection test failed';
+    return working;
+  }
+
+  // Which model answers, for status output
+  getModelDescription(): string {
+    return this.llm.description;
+  }
+}
@@ -0,0 +1,110 @@
+import { ChatMessage, ContextBudget } from '../types/types';
+import { LLMProvider } from './llm/LLMProvider';
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = { maxTokens: 16000, recentTokens: 8000 };
+
+// Older turns are folded into a system message starting with this text
+const MEMORY_PREFIX = 'Summary of the earlier conversation:\n';
+
+// Tool results are cut when shown to the summarizer
+const MAX_SUMMARY_INPUT_CHARS = 1500;
+
+const SUMMARY_PROMPT = `You keep the memory of a conversation between a user and a Jira assistant.
+Merge the earlier summary (if any) and the new messages into one concise summary.
+Keep what later turns may rely on: issue keys, projects, what was searched, created or changed, decisions, open questions and user preferences.
+Write plain sentences, at most 200 words.`;
+
+// Rough token count for a piece of text: about four characters per token for English and JSON
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Estimated tokens a message takes in a request, including per-message overhead
+export function estimateTokens(message: ChatMessage): number {
+  const toolCalls = (message.toolCalls || [])
+    .reduce((total, call) => total + estimateTextTokens(call.name + call.arguments) + 4, 0);
+  return estimateTextTokens(message.content || '') + toolCalls + 4;
+}
+
+export function countTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message), 0);
+}
+
+function isMemory(message: ChatMessage): boolean {
+  return message.role === 'system' && message.content.startsWith(MEMORY_PREFIX);
+}
+
+// Keeps chat history within a token budget by summarizing the oldest turns.
+// The leading system prompt is never removed; recent turns are kept verbatim.
+export class ContextWindow {
+  private llm: LLMProvider;
+  private budget: ContextBudget;
+
+  constructor(llm: LLMProvider, budget: ContextBudget = DEFAULT_CONTEXT_BUDGET) {
+    this.llm = llm;
+    this.budget = budget;
+  }
+
+  // Return history that fits next to reservedTokens (prompts added per request, tools, the reply)
+  async fit(history: ChatMessage[], reservedTokens: number = 0): Promise<ChatMessage[]> {
+    if (countTokens(history) + reservedTokens <= this.budget.maxTokens) {
+      return history;
+    }
+
+    const systemPrompt = history[0]?.role === 'system' && !isMemory(history[0]) ? [history[0]] : [];
+    const memory = history.find(isMemory);
+    const turns = history.filter(message => !systemPrompt.includes(message) && message !== memory);
+
+    // Cut at a user message so tool results stay next to the calls that produced them
+    let start = turns.length;
+    let used = 0;
+    for (let i = turns.length - 1; i >= 0; i--) {
+      used += estimateTokens(turns[i]);
+      if (used > this.budget.recentTokens && start < turns.length) break;
+      if (turns[i].role === 'user') start = i;
+    }
+
+    const older = turns.slice(0, start);
+    if (older.length === 0) {
+      return history;
+    }
+
+    const previous = memory ? memory.content.slice(MEMORY_PREFIX.length) : '';
+    let summary: string;
+    try {
+      summary = await this.summarize(previous, older);
+    } catch (error) {
+      // Dropping the old turns still keeps the request within the limit
+      console.error('Conversation summary failed, dropping older messages:', error.message);
+      summary = previous;
+    }
+
+    return [
+      ...systemPrompt,
+      ...(summary ? [{ role: 'system' as const, content: `${MEMORY_PREFIX}${summary}` }] : []),
+      ...turns.slice(start)
+    ];
+  }
+
+  private async summarize(previous: string, messages: ChatMessage[]): Promise<string> {
+    const transcript = messages.map(message => {
+      if (message.role === 'tool') {
+        return `tool result: ${message.content.slice(0, MAX_SUMMARY_INPUT_CHARS)}`;
+      }
+      const calls = (message.toolCalls || []).map(call => ` [called ${call.name} ${call.arguments}]`).join('');
+      return `${message.role}: ${message.content}${calls}`;
+    }).join('\n');
+
+    const completion = await this.llm.complete({
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: `Earlier summary:\n${previous || '(none)'}\n\nNew messages:\n${transcript}` }
+      ],
+      purpose: 'conversation_summary',
+      temperature: 0,
+      maxTokens: 400
+    });
+
+    return completion.content.trim() || previous;
+  }
+}
@@ -0,0 +1,93 @@
+import { EditableIssueField, IssueFieldChange, JiraIssueDetails, JiraIssueUpdate } from '../types/types';
+
+export const EDITABLE_FIELDS: EditableIssueField[] = ['summary', 'description', 'priority', 'labels', 'assignee'];
+
+// Issue keys such as PROJ-123
+export const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9]+-\d+$/;
+
+// Names users and the model use for the editable fields
+const FIELD_ALIASES: Record<string, EditableIssueField> = {
+  summary: 'summary',
+  title: 'summary',
+  description: 'description',
+  priority: 'priority',
+  labels: 'labels',
+  label: 'labels',
+  tags: 'labels',
+  assignee: 'assignee',
+  owner: 'assignee'
+};
+
+const CLEAR_VALUE = /^(none|nobody|no one|unassigned|-)$/i;
+
+// Editable field for a loosely named one, or null if it cannot be edited here
+export function toEditableField(name: string | null | undefined): EditableIssueField | null {
+  return FIELD_ALIASES[(name || '').trim().toLowerCase()] || null;
+}
+
+// "ui, backend" or "ui backend"; "none" clears the labels
+export function parseLabels(text: string): string[] {
+  return CLEAR_VALUE.test(text.trim()) ? [] : text.split(/[,\s]+/).map(label => label.trim()).filter(Boolean);
+}
+
+// A user name, or null for "none"/"unassigned"
+export function parseAssignee(text: string): string | null {
+  const value = text.trim();
+  return !value || CLEAR_VALUE.test(value) ? null : value;
+}
+
+// Labels after a change: "+a, -b" adds and removes, a plain list replaces
+export function applyLabelChange(current: string[], change: string): string[] {
+  const parts = change.split(/[,\s]+/).filter(Boolean);
+  if (!parts.every(part => /^[+-]/.test(part))) {
+    return parseLabels(change);
+  }
+
+  const labels = [...current];
+  parts.forEach(part => {
+    const label = part.slice(1);
+    const index = labels.findIndex(existing => existing.toLowerCase() === label.toLowerCase());
+    if (part.startsWith('+') && index < 0) {
+      labels.push(label);
+    } else if (part.startsWith('-') && index >= 0) {
+      labels.splice(index, 1);
+    }
+  });
+  return labels;
+}
+
+// New value for one field from a chat request such as "bump PROJ-12 to High"
+export function proposeChange(current: JiraIssueDetails, field: EditableIssueField, value: string): JiraIssueUpdate {
+  switch (field) {
+    case 'labels':
+      return { labels: applyLabelChange(current.labels, value) };
+    case 'assignee':
+      return { assignee: parseAssignee(value) };
+    default:
+      return { [field]: value.trim() };
+  }
+}
+
+const sameValue = (field: EditableIssueField, a: string | string[] | null, b: string | string[] | null): boolean => {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const normalize = (labels: string | string[] | null) => [...(Array.isArray(labels) ? labels : [])].sort().join('\n');
+    return normalize(a) === normalize(b);
+  }
+  const normalize = (value: string | null) => (value || '').trim();
+  // Jira matches priority and user names without regard to case
+  return field === 'priority' || field === 'assignee'
+    ? normalize(a).toLowerCase() === normalize(b).toLowerCase()
+    : normalize(a) === normalize(b);
+};
+
+// Fields whose proposed value differs from the current one, in display order
+export function diffIssueFields(current: JiraIssueDetails, proposed: JiraIssueUpdate): IssueFieldChange[] {
+  return EDITABLE_FIELDS
+    .filter(field => proposed[field] !== undefined && !sameValue(field, current[field], proposed[field]))
+    .map(field => ({ field, from: current[field], to: proposed[field] }));
+}
+
+// Update payload holding only the changed fields
+export function toIssueUpdate(changes: IssueFieldChange[]): JiraIssueUpdate {
+  return changes.reduce((update, change) => ({ ...update, [change.field]: change.to }), {} as JiraIssueUpdate);
+}
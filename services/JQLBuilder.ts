@@ -0,0 +1,232 @@
+// Builds JQL queries from typed clauses so user input is always quoted and escaped
+
+type SortDirection = 'ASC' | 'DESC';
+type DateValue = Date | string;
+
+// Characters with special meaning in Jira's text search (Lucene syntax)
+const TEXT_SEARCH_RESERVED = /[+\-&|!(){}\[\]^~*?\\:"\/]/g;
+
+// Quote a value for use with =, !=, in and similar operators
+export function quoteJQLValue(value: string): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Quote free text for the ~ operator. Reserved characters are dropped rather than
+// escaped because Jira tokenizes on them anyway; uppercase boolean operators are
+// lowercased so they match as words instead of changing the search.
+export function quoteJQLText(text: string): string {
+  const cleaned = String(text)
+    .replace(TEXT_SEARCH_RESERVED, ' ')
+    .replace(/\b(AND|OR|NOT)\b/g, operator => operator.toLowerCase())
+    .replace(/\s+/g, ' ')
+    .trim();
+  return quoteJQLValue(cleaned);
+}
+
+function formatList(values: string[]): string {
+  return `(${values.map(quoteJQLValue).join(', ')})`;
+}
+
+// Dates are given as Date objects, yyyy-MM-dd[ HH:mm] strings, or relative offsets such as -7d
+function formatDate(value: DateValue): string {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new Error('Invalid date in JQL clause');
+    }
+    return quoteJQLValue(value.toISOString().slice(0, 10));
+  }
+
+  const trimmed = value.trim();
+  if (/^-?\d+[wdhm]$/.test(trimmed) || /^\d{4}[-\/]\d{2}[-\/]\d{2}( \d{2}:\d{2})?$/.test(trimmed)) {
+    return quoteJQLValue(trimmed);
+  }
+
+  throw new Error(`Unsupported date "${value}" in JQL clause (use yyyy-MM-dd or a relative offset like -7d)`);
+}
+
+function validateField(field: string): string {
+  if (!/^([A-Za-z][\w.]*|cf\[\d+\])$/.test(field)) {
+    throw new Error(`Invalid JQL field name "${field}"`);
+  }
+  return field;
+}
+
+export class JQLBuilder {
+  private clauses: string[] = [];
+  private ordering: string[] = [];
+
+  // Combine builders so that any of them may match: (a) OR (b)
+  static or(...builders: JQLBuilder[]): JQLBuilder {
+    return new JQLBuilder().anyOf(...builders);
+  }
+
+  // Combine builders so that all of them must match
+  static and(...builders: JQLBuilder[]): JQLBuilder {
+    return new JQLBuilder().allOf(...builders);
+  }
+
+  // ===== CLAUSES (joined with AND) =====
+
+  project(keys: string | string[]): this {
+    return this.inClause('project', keys);
+  }
+
+  key(keys: string | string[]): this {
+    return this.inClause('key', keys);
+  }
+
+  status(statuses: string | string[]): this {
+    return this.inClause('status', statuses);
+  }
+
+  excludeStatus(statuses: string | string[]): this {
+    return this.inClause('status', statuses, true);
+  }
+
+  // Status category: "To Do", "In Progress" or "Done"
+  statusCategory(categories: string | string[]): this {
+    return this.inClause('statusCategory', categories);
+  }
+
+  excludeStatusCategory(categories: string | string[]): this {
+    return this.inClause('statusCategory', categories, true);
+  }
+
+  issueType(types: string | string[]): this {
+    return this.inClause('issuetype', types);
+  }
+
+  priority(priorities: string | string[]): this {
+    return this.inClause('priority', priorities);
+  }
+
+  // Account id, 'currentUser' for the caller, or null for unassigned issues
+  assignee(user: string | null): this {
+    return this.userClause('assignee', user);
+  }
+
+  reporter(user: string | null): this {
+    return this.userClause('reporter', user);
+  }
+
+  // Issues carrying any of the given labels
+  labels(labels: string | string[]): this {
+    return this.inClause('labels', labels);
+  }
+
+  // Full-text search across summary, description and comments
+  text(query: string): this {
+    return this.textClause('text', query);
+  }
+
+  summary(query: string): this {
+    return this.textClause('summary', query);
+  }
+
+  createdAfter(date: DateValue): this {
+    return this.add(`created >= ${formatDate(date)}`);
+  }
+
+  createdBefore(date: DateValue): this {
+    return this.add(`created <= ${formatDate(date)}`);
+  }
+
+  updatedAfter(date: DateValue): this {
+    return this.add(`updated >= ${formatDate(date)}`);
+  }
+
+  updatedBefore(date: DateValue): this {
+    return this.add(`updated <= ${formatDate(date)}`);
+  }
+
+  // Require at least one of the given builders to match
+  anyOf(...builders: JQLBuilder[]): this {
+    return this.group(builders, 'OR');
+  }
+
+  // Require every one of the given builders to match
+  allOf(...builders: JQLBuilder[]): this {
+    return this.group(builders, 'AND');
+  }
+
+  // Exclude issues matched by the given builder
+  not(builder: JQLBuilder): this {
+    const condition = builder.buildCondition();
+    return condition ? this.add(`NOT (${condition})`) : this;
+  }
+
+  // ===== ORDERING =====
+
+  orderBy(field: string, direction: SortDirection = 'ASC'): this {
+    this.ordering.push(`${validateField(field)} ${direction}`);
+    return this;
+  }
+
+  // ===== OUTPUT =====
+
+  isEmpty(): boolean {
+    return this.clauses.length === 0;
+  }
+
+  // Conditions only, without ORDER BY
+  buildCondition(): string {
+    return this.clauses.join(' AND ');
+  }
+
+  build(): string {
+    const condition = this.buildCondition();
+    const order = this.ordering.length > 0 ? `ORDER BY ${this.ordering.join(', ')}` : '';
+    return [condition, order].filter(Boolean).join(' ');
+  }
+
+  toString(): string {
+    return this.build();
+  }
+
+  private add(clause: string): this {
+    this.clauses.push(clause);
+    return this;
+  }
+
+  private inClause(field: string, values: string | string[], negate: boolean = false): this {
+    const list = (Array.isArray(values) ? values : [values]).filter(value => value !== undefined && value !== null && value !== '');
+    if (list.length === 0) {
+      return this;
+    }
+
+    if (list.length === 1) {
+      return this.add(`${field} ${negate ? '!=' : '='} ${quoteJQLValue(list[0])}`);
+    }
+    return this.add(`${field} ${negate ? 'not in' : 'in'} ${formatList(list)}`);
+  }
+
+  private textClause(field: string, query: string): this {
+    const quoted = quoteJQLText(query || '');
+    // Nothing searchable left after removing reserved characters
+    if (quoted === '""') {
+      return this;
+    }
+    return this.add(`${field} ~ ${quoted}`);
+  }
+
+  private userClause(field: string, user: string | null): this {
+    if (user === null) {
+      return this.add(`${field} is EMPTY`);
+    }
+    if (user === 'currentUser' || user === 'currentUser()') {
+      return this.add(`${field} = currentUser()`);
+    }
+    return this.add(`${field} = ${quoteJQLValue(user)}`);
+  }
+
+  private group(builders: JQLBuilder[], operator: 'AND' | 'OR'): this {
+    const conditions = builders.map(builder => builder.buildCondition()).filter(Boolean);
+    if (conditions.length === 0) {
+      return this;
+    }
+    if (conditions.length === 1) {
+      return this.add(`(${conditions[0]})`);
+    }
+    return this.add(`(${conditions.map(condition => `(${condition})`).join(` ${operator} `)})`);
+  }
+}
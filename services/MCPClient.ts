@@ -1,58 +1,290 @@
-import axios, { AxiosInstance } from 'axios';
-import { MCPRequest, MCPResponse, JiraIssue, JiraSearchResult } from '../types/types';
+import { randomUUID } from 'crypto';
+import { MCPRequest, MCPResponse, MCPNotification, MCPNotificationHandler, MCPInitializeResult, MCPCallOptions, MCPProgress, MCPToolCallResult, MCPToolOutput, MCPTool, JiraOperation, ToolResolution, JiraIssue, JiraSearchResult, JiraSearchPage, JiraSearchPageRequest, JiraIssueUpdate, JiraTransition, TransitionFields, JiraComment, JiraIssueView, JiraIssueRef, JiraIssueLink } from '../types/types';
+import { MCPSession } from './MCPSession';
+import { ToolRegistry } from './ToolRegistry';
+import { ToolResolver } from './ToolResolver';
+import { JQLBuilder } from './JQLBuilder';
+import { adfToPlainText } from './ADF';
+import { markdownToADF } from './MarkdownToADF';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, withRetry, isTransientError, isOutcomeUnknown, computeBackoff, sleep } from './RetryPolicy';
+import { MCPTransport, MCPSessionExpiredError, MCPTransportError } from './transports/MCPTransport';
+
+const PROTOCOL_VERSION = '2025-03-26';
+
+// Label prefix used to recognize issues created by a particular submission
+const SUBMISSION_LABEL_PREFIX = 'ai-agent-submission-';
+
+// Whether a tool argument schema allows values of a JSON type, directly or through anyOf/oneOf
+function acceptsType(schema: any, type: string): boolean {
+  if (!schema) {
+    return false;
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.includes(type) || (schema.anyOf || schema.oneOf || []).some((option: any) => acceptsType(option, type));
+}
+
+// Whether a tool argument schema takes an object (e.g. an ADF document) rather than only text
+function acceptsObject(schema: any): boolean {
+  return acceptsType(schema, 'object');
+}
+
+// Value that clears the assignee in the form the update tool's schema allows: null where it
+// can be given, otherwise an empty name. Undefined if the tool has no way to express it.
+function unassignedValue(schema: any): string | null | undefined {
+  if (!schema || (!schema.type && !schema.anyOf && !schema.oneOf) || acceptsType(schema, 'null')) {
+    return null;
+  }
+  if (acceptsType(schema, 'string') && !schema.enum && !(schema.minLength > 0)) {
+    return '';
+  }
+  return undefined;
+}
+
+// Arguments createJiraIssue fills in itself
+const STANDARD_CREATE_ARGUMENTS = ['instructions', 'project', 'issuetype', 'summary', 'description', 'priority', 'labels'];
+
+// Methods without side effects, always safe to repeat
+const SAFE_METHODS = new Set([
+  'tools/list',
+  'resources/list',
+  'resources/read',
+  'prompts/list',
+  'prompts/get',
+  'ping'
+]);
 
 export class MCPClient {
-  private baseUrl: string;
-  private apiKey: string;
-  private httpClient: AxiosInstance;
-
-  constructor(baseUrl: string, apiKey: string) {
-    this.baseUrl = baseUrl;
-    this.apiKey = apiKey;
-    
-    this.httpClient = axios.create({
-      timeout: 30000,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'User-Agent': 'Jira-AI-Agent/1.0.0'
+  private transport: MCPTransport;
+  private session: MCPSession | null = null;
+  private pendingSession: Promise<MCPSession> | null = null;
+  private requestCounter: number = 0;
+  private notificationHandlers: Map<string, Set<MCPNotificationHandler>> = new Map();
+  private progressHandlers: Map<string, (progress: MCPProgress) => void> = new Map();
+  private toolRegistry: ToolRegistry | null = null;
+  private toolResolver: ToolResolver;
+  private retryOptions: RetryOptions;
+
+  constructor(
+    transport: MCPTransport,
+    toolResolver: ToolResolver = new ToolResolver(),
+    retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {
+    this.transport = transport;
+    this.toolResolver = toolResolver;
+    this.retryOptions = retryOptions;
+    this.transport.setMessageHandler(message => this.handleServerMessage(message));
+
+    // Drop the cached tool list when the server says it changed
+    this.onNotification('notifications/tools/list_changed', () => {
+      this.toolRegistry = null;
+    });
+  }
+
+  // Short description of where the client is connected
+  getTransportDescription(): string {
+    return this.transport.description;
+  }
+
+  // ===== SESSION LIFECYCLE =====
+
+  // Initialize the MCP session once; concurrent callers share the same handshake
+  async connect(): Promise<MCPSession> {
+    if (this.session) {
+      return this.session;
+    }
+
+    if (!this.pendingSession) {
+      this.pendingSession = this.initializeSession()
+        .catch(error => {
+          throw this.toMCPError(error);
+        })
+        .finally(() => {
+          this.pendingSession = null;
+        });
+    }
+
+    return this.pendingSession;
+  }
+
+  // Current session, or null if the client has not connected yet
+  getSession(): MCPSession | null {
+    return this.session;
+  }
+
+  // Terminate the session and release the transport
+  async close(): Promise<void> {
+    this.session = null;
+    await this.transport.close();
+  }
+
+  // initialize request followed by the initialized notification
+  private async initializeSession(): Promise<MCPSession> {
+    this.transport.resetSession();
+
+    const response = await this.transport.request({
+      jsonrpc: '2.0',
+      id: this.nextRequestId(),
+      method: 'initialize',
+      params: {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: {
+          name: 'Jira-AI-Agent',
+          version: '1.0.0'
+        }
+      }
+    });
+
+    const result: MCPInitializeResult = this.unwrapResponse(response);
+    const session = new MCPSession(result, this.transport.sessionId);
+    this.transport.setProtocolVersion?.(session.protocolVersion);
+
+    await this.transport.send({
+      jsonrpc: '2.0',
+      method: 'notifications/initialized'
+    });
+
+    this.session = session;
+    return session;
+  }
+
+  // ===== NOTIFICATIONS =====
+
+  // Subscribe to server notifications by method name ('*' receives all); returns an unsubscribe function
+  onNotification(method: string, handler: MCPNotificationHandler): () => void {
+    if (!this.notificationHandlers.has(method)) {
+      this.notificationHandlers.set(method, new Set());
+    }
+    this.notificationHandlers.get(method).add(handler);
+
+    return () => {
+      this.notificationHandlers.get(method)?.delete(handler);
+    };
+  }
+
+  // Route messages the server initiates: notifications and requests
+  private handleServerMessage(message: MCPNotification | MCPRequest): void {
+    if ('id' in message && message.id !== undefined) {
+      this.answerServerRequest(message);
+    } else {
+      this.dispatchNotification(message);
+    }
+  }
+
+  private dispatchNotification(notification: MCPNotification): void {
+    if (notification.method === 'notifications/progress') {
+      const { progressToken, ...progress } = notification.params || {};
+      this.progressHandlers.get(String(progressToken))?.(progress as MCPProgress);
+    }
+
+    const handlers = [
+      ...(this.notificationHandlers.get(notification.method) || []),
+      ...(this.notificationHandlers.get('*') || [])
+    ];
+
+    handlers.forEach(handler => {
+      try {
+        handler(notification);
+      } catch (error) {
+        console.error(`Notification handler for ${notification.method} failed:`, error.message);
       }
     });
   }
 
-  // Generic MCP method call wrapper
-  async callMethod(method: string, params: any): Promise<any> {
+  // Servers may send requests of their own; only ping is supported
+  private answerServerRequest(request: MCPRequest): void {
+    const response: MCPResponse = request.method === 'ping'
+      ? { jsonrpc: '2.0', id: request.id, result: {} }
+      : { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+
+    this.transport.send(response)
+      .catch(error => console.warn(`Could not answer server request ${request.method}:`, error.message));
+  }
+
+  // ===== REQUESTS =====
+
+  // Generic MCP method call wrapper; safe (read-only) calls are retried on transient failures
+  async callMethod(method: string, params: any, options: MCPCallOptions = {}): Promise<any> {
+    const attempt = async () => {
+      await this.connect();
+
+      try {
+        return await this.send(method, params, options);
+      } catch (error) {
+        if (error instanceof MCPSessionExpiredError) {
+          this.session = null;
+          await this.connect();
+          return await this.send(method, params, options);
+        }
+        throw error;
+      }
+    };
+
+    try {
+      if (SAFE_METHODS.has(method) || options.idempotent) {
+        return await withRetry(attempt, this.retryOptions, isTransientError, (error, attemptNumber, delay) => {
+          console.warn(`MCP ${method} failed (${error.message}); retry ${attemptNumber} in ${delay}ms`);
+        });
+      }
+      return await attempt();
+    } catch (error) {
+      throw this.toMCPError(error);
+    }
+  }
+
+  // Send one JSON-RPC request within the current session
+  private async send(method: string, params: any, options: MCPCallOptions): Promise<any> {
     const request: MCPRequest = {
       jsonrpc: '2.0',
-      id: Date.now().toString(),
+      id: this.nextRequestId(),
       method: method,
       params: params
     };
 
+    // Ask the server for progress notifications tied to this request
+    if (options.onProgress) {
+      request.params = { ...params, _meta: { ...params?._meta, progressToken: request.id } };
+      this.progressHandlers.set(request.id, options.onProgress);
+    }
+
     try {
-      const response = await this.httpClient.post(`${this.baseUrl}/mcp`, request);
-      const mcpResponse: MCPResponse = response.data;
+      return this.unwrapResponse(await this.transport.request(request));
+    } finally {
+      this.progressHandlers.delete(request.id);
+    }
+  }
 
-      if (mcpResponse.error) {
-        throw new Error(`MCP Error: ${mcpResponse.error.message}`);
-      }
+  private unwrapResponse(mcpResponse: MCPResponse): any {
+    if (mcpResponse.error) {
+      throw new Error(`MCP Error: ${mcpResponse.error.message}`);
+    }
 
-      return mcpResponse.result;
-    } catch (error) {
-      if (error.response) {
-        throw new Error(`MCP HTTP Error: ${error.response.status} - ${error.response.statusText}`);
-      } else if (error.request) {
-        throw new Error('MCP Network Error: No response received');
-      } else {
-        throw new Error(`MCP Error: ${error.message}`);
-      }
+    return mcpResponse.result;
+  }
+
+  private nextRequestId(): string {
+    this.requestCounter++;
+    return `${Date.now()}-${this.requestCounter}`;
+  }
+
+  private toMCPError(error: any): Error {
+    if (error.message?.startsWith('MCP ')) {
+      return error;
     }
+    return new Error(`MCP Error: ${error.message}`);
+  }
+
+  // Prefix an error message with what was being done. Transport failures keep their type, so callers
+  // can still tell a lost connection (worth retrying later) from a request the server rejected.
+  private withContext(context: string, error: any): Error {
+    const message = `${context}: ${error.message}`;
+    return error instanceof MCPTransportError ? new MCPTransportError(message, error) : new Error(message);
   }
 
-  // Test connection to MCP server
+  // Test connection to MCP server by establishing the session
   async testConnection(): Promise<boolean> {
     try {
-      await this.callMethod('tools/list', {});
+      await this.connect();
       return true;
     } catch (error) {
       console.error('MCP connection test failed:', error.message);
@@ -60,89 +292,538 @@ export class MCPClient {
     }
   }
 
-  // Create Jira issue via MCP
-  async createJiraIssue(issue: JiraIssue): Promise<any> {
-    const issueData = {
-      fields: {
-        project: {
-          key: issue.project
-        },
+  // ===== TOOL INVOCATION =====
+
+  // Invoke an MCP tool via tools/call and return its parsed output
+  async callTool(name: string, args: Record<string, any> = {}, options: MCPCallOptions = {}): Promise<MCPToolOutput> {
+    // Reject bad arguments locally with field-level messages instead of a server round trip
+    const registry = await this.getToolRegistry();
+    registry.validateArguments(name, args);
+
+    // Tools the server marks read-only can be retried like other safe methods
+    const idempotent = options.idempotent ?? registry.get(name)?.annotations?.readOnlyHint === true;
+
+    const result: MCPToolCallResult = await this.callMethod('tools/call', {
+      name: name,
+      arguments: args
+    }, { ...options, idempotent });
+
+    const output = this.parseToolResult(result);
+
+    // Tool execution errors are reported in-band rather than as JSON-RPC errors
+    if (result?.isError) {
+      throw new Error(`Tool ${name} failed: ${output.text || 'no details returned'}`);
+    }
+
+    return output;
+  }
+
+  // Flatten tool content blocks into text plus the best structured payload available
+  private parseToolResult(result: MCPToolCallResult): MCPToolOutput {
+    const content = Array.isArray(result?.content) ? result.content : [];
+
+    const text = content
+      .map(block => {
+        if (block.type === 'text') return block.text || '';
+        if (block.type === 'resource') return block.resource?.text || '';
+        return '';
+      })
+      .filter(part => part.length > 0)
+      .join('\n');
+
+    let data = result?.structuredContent;
+    if (data === undefined && text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = text;
+      }
+    }
+
+    return { text, data, content };
+  }
+
+  // Zapier wraps action output in a "results" array; unwrap it when present
+  private unwrapResults(data: any): any {
+    if (data && Array.isArray(data.results)) {
+      return data.results;
+    }
+    return data;
+  }
+
+  // Tool name that implements a logical Jira operation on this server
+  async resolveTool(operation: JiraOperation): Promise<string> {
+    return this.toolResolver.resolve(operation, await this.getToolRegistry());
+  }
+
+  // Resolution status of every Jira operation, for diagnostics
+  async explainToolResolution(): Promise<ToolResolution[]> {
+    return this.toolResolver.explainAll(await this.getToolRegistry());
+  }
+
+  // ===== JIRA METHODS VIA MCP =====
+
+  // Id that ties together every attempt to create one issue, including later resubmissions
+  static newSubmissionId(): string {
+    return randomUUID().slice(0, 8);
+  }
+
+  // Create Jira issue via MCP. Creates are not retried blindly: when an attempt fails with an
+  // unknown outcome, a marker label derived from submissionId is searched for before trying again.
+  // Pass resumed=true when resubmitting an earlier submission so that marker is checked first.
+  // The marker is removed once the issue is confirmed. The search goes through Jira's index, which
+  // can lag a few seconds behind a create, so an issue created just before the lookup may be missed
+  // and filed again.
+  async createJiraIssue(issue: JiraIssue, submissionId: string = MCPClient.newSubmissionId(), resumed: boolean = false): Promise<any> {
+    try {
+      const toolName = await this.resolveTool('createIssue');
+      const schema = (await this.getToolRegistry()).get(toolName)?.inputSchema;
+
+      // The marker rides along as a label, so it only works if the tool accepts labels
+      const marker = schema?.properties?.labels ? `${SUBMISSION_LABEL_PREFIX}${submissionId}` : null;
+
+      if (resumed && marker) {
+        const existing = await this.findIssueBySubmissionMarker(marker, issue.project);
+        if (existing) {
+          return this.removeSubmissionMarker(existing, issue, marker);
+        }
+      }
+
+      const labels = [...(issue.labels || []), ...(marker ? [marker] : [])];
+
+      const args: Record<string, any> = {
+        instructions: `Create a ${issue.issueType} in project ${issue.project} titled "${issue.title}"`,
+        project: issue.project,
+        issuetype: issue.issueType,
         summary: issue.title,
-        description: {
-          type: 'doc',
-          version: 1,
-          content: [
-            {
-              type: 'paragraph',
-              content: [
-                {
-                  type: 'text',
-                  text: issue.description
-                }
-              ]
+        // Markdown becomes formatting in Jira when the tool takes ADF
+        description: acceptsObject(schema?.properties?.description) && issue.description
+          ? markdownToADF(issue.description)
+          : issue.description,
+        priority: issue.priority
+      };
+      if (labels.length > 0) {
+        args.labels = labels;
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const { data } = await this.callTool(toolName, args, { idempotent: false });
+          return this.removeSubmissionMarker(this.extractCreatedIssue(data), issue, marker);
+        } catch (error) {
+          if (attempt >= this.retryOptions.maxAttempts || !isTransientError(error)) {
+            throw error;
+          }
+          if (isOutcomeUnknown(error) && !marker) {
+            throw new Error(`${error.message} (the issue may have been created; check Jira before trying again)`);
+          }
+
+          const delay = computeBackoff(attempt, this.retryOptions, error.retryAfterMs);
+          console.warn(`Issue creation failed (${error.message}); retry ${attempt} in ${delay}ms`);
+          await sleep(delay);
+
+          // The failed attempt may have gone through; never file the issue twice
+          if (isOutcomeUnknown(error)) {
+            const existing = await this.findIssueBySubmissionMarker(marker, issue.project);
+            if (existing) {
+              return this.removeSubmissionMarker(existing, issue, marker);
             }
-          ]
-        },
-        issuetype: {
-          name: issue.issueType
-        },
-        priority: {
-          name: issue.priority
+          }
         }
       }
+    } catch (error) {
+      throw this.withContext('Failed to create Jira issue', error);
+    }
+  }
+
+  private extractCreatedIssue(data: any): any {
+    const results = this.unwrapResults(data);
+    const created = Array.isArray(results) ? results[0] : results;
+    if (!created || !created.key) {
+      throw new Error('Tool did not return the created issue');
+    }
+    return created;
+  }
+
+  // Put the issue's own labels back once it is confirmed, so no single-use marker label is left in
+  // Jira. The issue exists either way, so failing to do that only warns.
+  private async removeSubmissionMarker(created: any, issue: JiraIssue, marker: string | null): Promise<any> {
+    if (marker) {
+      try {
+        await this.updateJiraIssue(created.key, { labels: issue.labels || [] });
+      } catch (error) {
+        console.warn(`Could not remove the ${marker} label from ${created.key}: ${error.message}`);
+      }
+    }
+    return created;
+  }
+
+  // Look up an issue created by an earlier attempt of the same submission
+  private async findIssueBySubmissionMarker(marker: string, project: string): Promise<JiraSearchResult | null> {
+    const jql = new JQLBuilder()
+      .project(project)
+      .labels(marker);
+    const matches = await this.searchJiraIssues(jql, 1);
+    return matches[0] || null;
+  }
+
+  // Search for existing Jira issues with a JQL query (build it with JQLBuilder)
+  async searchJiraIssues(jql: string | JQLBuilder, maxResults: number = 5): Promise<JiraSearchResult[]> {
+    const page = await this.searchJiraIssuesPage(jql, { maxResults });
+    return page.issues;
+  }
+
+  // Fetch one page of search results; pass startAt, plus the previous page's nextPageToken when it had one
+  async searchJiraIssuesPage(jql: string | JQLBuilder, request: JiraSearchPageRequest = {}): Promise<JiraSearchPage> {
+    const query = jql.toString();
+    const startAt = request.startAt || 0;
+    const maxResults = request.maxResults || 25;
+
+    const args: Record<string, any> = {
+      instructions: `Find up to ${maxResults} issues matching the JQL query`,
+      jql: query,
+      maxResults: maxResults
     };
+    if (request.nextPageToken) {
+      args.nextPageToken = request.nextPageToken;
+    } else if (startAt > 0) {
+      args.startAt = startAt;
+    }
 
     try {
-      const result = await this.callMethod('tools/jira_software_cloud/create_issue', issueData);
-      return result;
+      const { data } = await this.callTool(await this.resolveTool('searchIssues'), args, { idempotent: true });
+      return this.toSearchPage(data, startAt, maxResults);
     } catch (error) {
-      throw new Error(`Failed to create Jira issue: ${error.message}`);
+      throw this.withContext('Issue search failed', error);
     }
   }
 
-  // Search for existing Jira issues
-  async searchJiraIssues(query: string, maxResults: number = 5): Promise<JiraSearchResult[]> {
-    try {
-      const result = await this.callMethod('tools/jira_software_cloud/search_issues', {
-        jql: `text ~ "${query}"`,
-        maxResults: maxResults
-      });
-      
-      return result.issues || [];
-    } catch (error) {
-      throw new Error(`Issue search failed: ${error.message}`);
+  // Iterate over every matching issue, fetching further pages only as they are consumed
+  async *iterateJiraIssues(jql: string | JQLBuilder, pageSize: number = 25): AsyncGenerator<JiraSearchResult> {
+    let request: JiraSearchPageRequest = { startAt: 0, maxResults: pageSize };
+
+    while (true) {
+      const page = await this.searchJiraIssuesPage(jql, request);
+      yield* page.issues;
+
+      if (page.isLast || page.issues.length === 0) {
+        return;
+      }
+      request = { maxResults: pageSize, startAt: page.startAt + page.issues.length, nextPageToken: page.nextPageToken };
     }
   }
 
+  // Normalize the Jira search payload (classic startAt/total or token-based) into a page
+  private toSearchPage(data: any, startAt: number, maxResults: number): JiraSearchPage {
+    const results = this.unwrapResults(data);
+    const payload = Array.isArray(results) && results.length === 1 && results[0]?.issues ? results[0] : results;
+
+    const issues: JiraSearchResult[] = Array.isArray(payload)
+      ? payload.flatMap(result => result.issues || [result])
+      : payload?.issues || [];
+
+    const total = typeof payload?.total === 'number' ? payload.total : undefined;
+    const nextPageToken = payload?.nextPageToken || undefined;
+
+    let isLast: boolean;
+    if (typeof payload?.isLast === 'boolean') {
+      isLast = payload.isLast;
+    } else if (nextPageToken) {
+      isLast = false;
+    } else if (total !== undefined) {
+      isLast = startAt + issues.length >= total;
+    } else {
+      isLast = issues.length < maxResults;
+    }
+
+    return {
+      issues: issues.slice(0, maxResults),
+      startAt: typeof payload?.startAt === 'number' ? payload.startAt : startAt,
+      maxResults,
+      total,
+      nextPageToken,
+      isLast
+    };
+  }
+
   // Get available Jira projects
   async getJiraProjects(): Promise<any[]> {
     try {
-      const result = await this.callMethod('tools/jira_software_cloud/get_projects', {});
-      return result.values || result || [];
+      const { data } = await this.callTool(await this.resolveTool('listProjects'), {
+        instructions: 'List all projects'
+      }, { idempotent: true });
+      const results = this.unwrapResults(data);
+      // Jira's paginated shape is { values: [...] }; arrays have a values() method, so check them first
+      return Array.isArray(results) ? results : results?.values || [];
     } catch (error) {
-      throw new Error(`Could not fetch projects: ${error.message}`);
+      throw this.withContext('Could not fetch projects', error);
     }
   }
 
   // Get Jira issue types for a project
   async getIssueTypes(projectKey: string): Promise<any[]> {
     try {
-      const result = await this.callMethod('tools/jira_software_cloud/get_issue_types', {
+      const { data } = await this.callTool(await this.resolveTool('listIssueTypes'), {
+        instructions: `List the issue types available in project ${projectKey}`,
         projectKey: projectKey
-      });
-      return result || [];
+      }, { idempotent: true });
+      const results = this.unwrapResults(data);
+      return Array.isArray(results) ? results : [];
     } catch (error) {
-      throw new Error(`Could not fetch issue types: ${error.message}`);
+      throw this.withContext('Could not fetch issue types', error);
     }
   }
 
+  // Fields the create tool accepts beyond the standard ones, e.g. custom fields or components
+  async getExtraCreateFields(): Promise<string[]> {
+    const schema = (await this.getToolRegistry()).get(await this.resolveTool('createIssue'))?.inputSchema;
+    return Object.keys(schema?.properties || {}).filter(field => !STANDARD_CREATE_ARGUMENTS.includes(field.toLowerCase()));
+  }
+
   // Get issue priorities
   async getPriorities(): Promise<any[]> {
     try {
-      const result = await this.callMethod('tools/jira_software_cloud/get_priorities', {});
-      return result || [];
+      const { data } = await this.callTool(await this.resolveTool('listPriorities'), {
+        instructions: 'List all issue priorities'
+      }, { idempotent: true });
+      const results = this.unwrapResults(data);
+      return Array.isArray(results) ? results : [];
+    } catch (error) {
+      throw this.withContext('Could not fetch priorities', error);
+    }
+  }
+
+  // Get one issue by key with the fields shown before editing it
+  async getJiraIssue(issueKey: string): Promise<JiraIssueView> {
+    try {
+      const { data } = await this.callTool(await this.resolveTool('getIssue'), {
+        instructions: `Find issue ${issueKey}`,
+        issueKey: issueKey
+      }, { idempotent: true });
+      const results = this.unwrapResults(data);
+      const issue = Array.isArray(results) ? results[0] : results;
+      if (!issue || !issue.key) {
+        throw new Error('issue not found');
+      }
+      return this.toIssueDetails(issue);
+    } catch (error) {
+      throw this.withContext(`Could not fetch issue ${issueKey}`, error);
+    }
+  }
+
+  // Change fields of an existing issue; only the fields present in the update are sent.
+  // Setting fields to fixed values is safe to repeat, so the call is retried like a read.
+  async updateJiraIssue(issueKey: string, update: JiraIssueUpdate): Promise<void> {
+    const fields = Object.keys(update);
+    if (fields.length === 0) {
+      return;
+    }
+
+    try {
+      const toolName = await this.resolveTool('updateIssue');
+      const schema = (await this.getToolRegistry()).get(toolName)?.inputSchema;
+      const values: Record<string, any> = { ...update };
+      if (update.description && acceptsObject(schema?.properties?.description)) {
+        values.description = markdownToADF(update.description);
+      }
+      if (update.assignee === null) {
+        values.assignee = unassignedValue(schema?.properties?.assignee);
+        if (values.assignee === undefined) {
+          throw new Error(`the ${toolName} tool cannot unassign issues (its assignee field needs a user); unassign the issue in Jira instead`);
+        }
+      }
+
+      await this.callTool(toolName, {
+        instructions: `Update issue ${issueKey}: set ${fields.join(', ')}`,
+        issueKey: issueKey,
+        ...values
+      }, { idempotent: true });
     } catch (error) {
-      throw new Error(`Could not fetch priorities: ${error.message}`);
+      throw this.withContext(`Failed to update ${issueKey}`, error);
+    }
+  }
+
+  // Transitions the workflow allows from the issue's current status
+  async getTransitions(issueKey: string): Promise<JiraTransition[]> {
+    try {
+      const { data } = await this.callTool(await this.resolveTool('listTransitions'), {
+        instructions: `List the workflow transitions available for issue ${issueKey}, with their fields`,
+        issueKey: issueKey
+      }, { idempotent: true });
+      const results = this.unwrapResults(data);
+      const payload = Array.isArray(results) && results.length === 1 && results[0]?.transitions ? results[0] : results;
+      const transitions = Array.isArray(payload) ? payload : payload?.transitions || [];
+      return transitions.map((transition: any) => this.toTransition(transition));
+    } catch (error) {
+      throw this.withContext(`Could not fetch transitions for ${issueKey}`, error);
+    }
+  }
+
+  // Run a transition. Not retried: once it has gone through, the same transition may no longer apply.
+  async transitionJiraIssue(issueKey: string, transition: JiraTransition, fields: TransitionFields = {}): Promise<void> {
+    const args: Record<string, any> = {
+      instructions: `Move issue ${issueKey} to ${transition.toStatus} using the "${transition.name}" transition`,
+      issueKey: issueKey,
+      transitionId: transition.id
+    };
+    if (fields.resolution) {
+      args.resolution = fields.resolution;
+    }
+    if (fields.comment) {
+      args.comment = fields.comment;
+    }
+
+    try {
+      await this.callTool(await this.resolveTool('transitionIssue'), args, { idempotent: false });
+    } catch (error) {
+      throw this.withContext(`Failed to move ${issueKey} to ${transition.toStatus}`, error);
+    }
+  }
+
+  // Jira's shape is { id, name, to: { name }, fields: { resolution: { required, allowedValues } } }
+  private toTransition(transition: any): JiraTransition {
+    const fields = transition.fields || {};
+    const resolution = fields.resolution;
+    return {
+      id: String(transition.id),
+      name: transition.name || '',
+      toStatus: (typeof transition.to === 'string' ? transition.to : transition.to?.name) || transition.name || '',
+      requiresResolution: resolution?.required === true,
+      requiresComment: fields.comment?.required === true,
+      resolutions: Array.isArray(resolution?.allowedValues)
+        ? resolution.allowedValues.map((value: any) => typeof value === 'string' ? value : value.name).filter(Boolean)
+        : []
+    };
+  }
+
+  // Comments on an issue, oldest first
+  async getComments(issueKey: string): Promise<JiraComment[]> {
+    try {
+      const { data } = await this.callTool(await this.resolveTool('listComments'), {
+        instructions: `List the comments on issue ${issueKey}`,
+        issueKey: issueKey
+      }, { idempotent: true });
+      const results = this.unwrapResults(data);
+      const payload = Array.isArray(results) && results.length === 1 && results[0]?.comments ? results[0] : results;
+      const comments = Array.isArray(payload) ? payload : payload?.comments || [];
+      return comments
+        .map((comment: any) => this.toComment(comment))
+        .sort((a: JiraComment, b: JiraComment) => a.created.localeCompare(b.created));
+    } catch (error) {
+      throw this.withContext(`Could not fetch comments for ${issueKey}`, error);
+    }
+  }
+
+  // Add a comment. Markdown in the text is converted when the tool accepts an ADF document, otherwise it goes as typed.
+  // Not retried: a comment posted twice would show up twice.
+  async addComment(issueKey: string, text: string): Promise<JiraComment> {
+    try {
+      const toolName = await this.resolveTool('addComment');
+      const properties = (await this.getToolRegistry()).get(toolName)?.inputSchema?.properties || {};
+      const bodyField = properties.body && !properties.comment ? 'body' : 'comment';
+
+      const { data } = await this.callTool(toolName, {
+        instructions: `Add a comment to issue ${issueKey}`,
+        issueKey: issueKey,
+        [bodyField]: acceptsObject(properties[bodyField]) ? markdownToADF(text) : text
+      }, { idempotent: false });
+
+      const results = this.unwrapResults(data);
+      const created = Array.isArray(results) ? results[0] : results;
+      return this.toComment({ body: text, ...(created && typeof created === 'object' ? created : {}) });
+    } catch (error) {
+      throw this.withContext(`Failed to comment on ${issueKey}`, error);
+    }
+  }
+
+  private toComment(comment: any): JiraComment {
+    const author = comment.author || comment.updateAuthor;
+    return {
+      id: String(comment.id || ''),
+      author: (typeof author === 'string' ? author : author?.displayName || author?.emailAddress) || 'Unknown',
+      created: comment.created || new Date().toISOString(),
+      updated: comment.updated && comment.updated !== comment.created ? comment.updated : undefined,
+      body: adfToPlainText(comment.body)
+    };
+  }
+
+  // Normalize a Jira issue payload (REST shape or flattened) into a JiraIssueView
+  private toIssueDetails(issue: any): JiraIssueView {
+    const fields = issue.fields || issue;
+    const name = (value: any) => (typeof value === 'string' ? value : value?.name || value?.displayName) || null;
+    const ref = (other: any): JiraIssueRef => ({
+      key: other.key,
+      summary: other.fields?.summary || other.summary || '',
+      status: name(other.fields?.status || other.status) || 'Unknown'
+    });
+
+    // Each link names the issue on the other side and the relation as seen from this issue
+    const links: JiraIssueLink[] = (Array.isArray(fields.issuelinks) ? fields.issuelinks : [])
+      .filter((link: any) => link.outwardIssue || link.inwardIssue)
+      .map((link: any) => ({
+        ...ref(link.outwardIssue || link.inwardIssue),
+        relation: (link.outwardIssue ? link.type?.outward : link.type?.inward) || link.type?.name || 'relates to'
+      }));
+
+    return {
+      key: issue.key,
+      self: issue.self || '',
+      issueType: name(fields.issuetype) || 'Unknown',
+      status: name(fields.status) || 'Unknown',
+      summary: fields.summary || '',
+      description: adfToPlainText(fields.description),
+      priority: name(fields.priority),
+      labels: Array.isArray(fields.labels) ? fields.labels : [],
+      assignee: name(fields.assignee),
+      reporter: name(fields.reporter),
+      resolution: name(fields.resolution),
+      created: fields.created || null,
+      updated: fields.updated || null,
+      parent: fields.parent?.key ? ref(fields.parent) : null,
+      links,
+      subtasks: (Array.isArray(fields.subtasks) ? fields.subtasks : []).map(ref),
+      descriptionDocument: !fields.description ? null
+        : typeof fields.description === 'string' ? markdownToADF(fields.description) : fields.description
+    };
+  }
+
+
+  // ===== UTILITY METHODS =====
+
+  // Get list of available tools, following tools/list pagination
+  async getAvailableTools(): Promise<MCPTool[]> {
+    try {
+      const tools: MCPTool[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const result = await this.callMethod('tools/list', cursor ? { cursor } : {});
+        tools.push(...(result?.tools || []));
+        cursor = result?.nextCursor;
+      } while (cursor);
+
+      return tools;
+    } catch (error) {
+      throw this.withContext('Could not fetch available tools', error);
+    }
+  }
+
+  // Registry of discovered tools, fetched once and refreshed when the server reports changes
+  async getToolRegistry(refresh: boolean = false): Promise<ToolRegistry> {
+    if (refresh || !this.toolRegistry) {
+      this.toolRegistry = new ToolRegistry(await this.getAvailableTools());
+    }
+    return this.toolRegistry;
+  }
+
+  // Test specific tool availability
+  async testTool(toolName: string): Promise<boolean> {
+    try {
+      const registry = await this.getToolRegistry();
+      return registry.has(toolName);
+    } catch (error) {
+      console.warn(`Could not test tool ${toolName}:`, error.message);
+      return false;
     }
   }
-}
\ No newline at end of file
+}
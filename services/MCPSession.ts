@@ -0,0 +1,49 @@
+import { MCPInitializeResult, MCPServerCapabilities } from '../types/types';
+
+// Negotiated state of an initialized MCP connection
+export class MCPSession {
+  readonly protocolVersion: string;
+  readonly capabilities: MCPServerCapabilities;
+  readonly serverInfo: { name: string; version: string };
+  readonly instructions?: string;
+  readonly sessionId: string | null;
+  readonly initializedAt: Date;
+
+  constructor(result: MCPInitializeResult, sessionId: string | null) {
+    this.protocolVersion = result.protocolVersion;
+    this.capabilities = result.capabilities || {};
+    this.serverInfo = result.serverInfo || { name: 'unknown', version: 'unknown' };
+    this.instructions = result.instructions;
+    this.sessionId = sessionId;
+    this.initializedAt = new Date();
+  }
+
+  // Capability checks used to decide which features to offer
+  supportsTools(): boolean {
+    return this.capabilities.tools !== undefined;
+  }
+
+  supportsResources(): boolean {
+    return this.capabilities.resources !== undefined;
+  }
+
+  supportsPrompts(): boolean {
+    return this.capabilities.prompts !== undefined;
+  }
+
+  supportsLogging(): boolean {
+    return this.capabilities.logging !== undefined;
+  }
+
+  // Human-readable summary for status output
+  describe(): string {
+    const features = [
+      this.supportsTools() && 'tools',
+      this.supportsResources() && 'resources',
+      this.supportsPrompts() && 'prompts',
+      this.supportsLogging() && 'logging'
+    ].filter(Boolean);
+
+    return `${this.serverInfo.name} ${this.serverInfo.version} (protocol ${this.protocolVersion}; ${features.join(', ') || 'no capabilities'})`;
+  }
+}
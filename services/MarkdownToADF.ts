@@ -0,0 +1,546 @@
+import { ADFDocument, ADFMark, ADFNode } from '../types/types';
+
+// Converts the Markdown people type into descriptions and comments to Atlassian Document
+// Format: paragraphs, headings, block quotes, rules, bullet and numbered lists (nested),
+// fenced and indented code blocks, GitHub-style tables, and inline bold, italic,
+// strikethrough, code and links. Unlike CommonMark, a single line break is kept as a
+// line break, since that is what people mean when typing into a terminal.
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:( +)(.*)|[ \t]*)$/;
+const QUOTE = /^ {0,3}> ?/;
+const TABLE_DELIMITER = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+const SETEXT = /^ {0,3}(=+|-+)[ \t]*$/;
+const INDENTED_CODE = /^( {4}|\t)/;
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+// Block types allowed inside list items and quotes
+const NESTABLE = ['paragraph', 'bulletList', 'orderedList', 'codeBlock'];
+
+interface ListMarker {
+  indent: number;
+  ordered: boolean;
+  start: number;
+  contentIndent: number;
+  text: string;
+}
+
+const expandTabs = (line: string) => line.replace(/^\t+/, tabs => '    '.repeat(tabs.length));
+const indentOf = (line: string) => line.length - line.trimStart().length;
+const isBlank = (line: string) => line.trim() === '';
+
+function parseListMarker(line: string): ListMarker | null {
+  const match = line.match(LIST_ITEM);
+  if (!match) {
+    return null;
+  }
+  const [, indent, marker, spaces = ' ', text = ''] = match;
+  const ordered = /\d/.test(marker);
+  // Five or more spaces after the marker start indented code; the content then begins one space in
+  const gap = spaces.length > 4 ? 1 : spaces.length;
+  return {
+    indent: indent.length,
+    ordered,
+    start: ordered ? parseInt(marker) : 1,
+    contentIndent: indent.length + marker.length + gap,
+    text: spaces.length > 4 ? `${spaces.slice(1)}${text}` : text
+  };
+}
+
+// Whether a line begins a block other than a paragraph, which ends a paragraph before it
+function startsBlock(line: string): boolean {
+  return HEADING.test(line) || RULE.test(line) || FENCE.test(line) || QUOTE.test(line) || parseListMarker(line) !== null;
+}
+
+// Cells of a table row, split on pipes that are neither escaped nor inside code
+function splitRow(line: string): string[] {
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      cell += '\\|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      cell += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+const isTableStart = (lines: string[], index: number) =>
+  lines[index].includes('|') && index + 1 < lines.length && lines[index + 1].includes('-') &&
+  TABLE_DELIMITER.test(lines[index + 1]) && splitRow(lines[index]).length === splitRow(lines[index + 1]).length;
+
+function paragraph(text: string): ADFNode {
+  const content = parseInline(text.replace(/^[ \t]+/gm, '').trim());
+  return content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+}
+
+function codeBlock(lines: string[], language: string): ADFNode {
+  const text = lines.join('\n');
+  return {
+    type: 'codeBlock',
+    ...(language ? { attrs: { language } } : {}),
+    ...(text ? { content: [{ type: 'text', text }] } : {})
+  };
+}
+
+function table(rows: string[][]): ADFNode {
+  const columns = rows[0].length;
+  const cell = (type: string, text: string): ADFNode => ({ type, attrs: {}, content: [paragraph(text)] });
+
+  return {
+    type: 'table',
+    attrs: { isNumberColumnEnabled: false, layout: 'default' },
+    content: rows.map((row, index) => ({
+      type: 'tableRow',
+      content: Array.from({ length: columns }, (_, column) => cell(index === 0 ? 'tableHeader' : 'tableCell', row[column] || ''))
+    }))
+  };
+}
+
+// Blocks reshaped to fit inside a list item or quote, which take fewer block types than a document
+function nestable(blocks: ADFNode[]): ADFNode[] {
+  return blocks.flatMap((block): ADFNode[] => {
+    if (NESTABLE.includes(block.type)) {
+      return [block];
+    }
+    if (block.type === 'heading') {
+      return [{ type: 'paragraph', ...(block.content ? { content: block.content } : {}) }];
+    }
+    if (block.type === 'blockquote') {
+      return block.content || [];
+    }
+    if (block.type === 'table') {
+      // One paragraph per row, cells separated by pipes; the cells are already parsed, so their
+      // inline nodes are reused rather than turned back into Markdown
+      return block.content.map(row => ({
+        type: 'paragraph',
+        content: row.content.flatMap((cell, index) => [
+          ...(index > 0 ? [{ type: 'text', text: ' | ' }] : []),
+          ...cell.content[0].content || []
+        ])
+      }));
+    }
+    return [];
+  });
+}
+
+function listItem(lines: string[]): ADFNode {
+  const content = nestable(parseBlocks(lines));
+  // A list item has to start with a paragraph or a code block
+  if (content.length === 0 || !['paragraph', 'codeBlock'].includes(content[0].type)) {
+    content.unshift({ type: 'paragraph' });
+  }
+  return { type: 'listItem', content };
+}
+
+// Parse a list starting at lines[start]; returns the list node and the index after it
+function parseList(lines: string[], start: number): { node: ADFNode; next: number } {
+  const first = parseListMarker(lines[start]);
+  const items: string[][] = [];
+  let marker = first;
+  let index = start;
+
+  while (marker && marker.ordered === first.ordered) {
+    const itemLines = [marker.text];
+    index++;
+
+    while (index < lines.length) {
+      const line = lines[index];
+      if (isBlank(line)) {
+        // A blank line belongs to the item only if the item or the list continues after it
+        let next = index + 1;
+        while (next < lines.length && isBlank(lines[next])) {
+          next++;
+        }
+        if (next < lines.length && indentOf(lines[next]) >= marker.contentIndent) {
+          itemLines.push(...lines.slice(index, next).map(() => ''));
+          index = next;
+          continue;
+        }
+        break;
+      }
+      if (indentOf(line) >= marker.contentIndent) {
+        itemLines.push(line.slice(marker.contentIndent));
+      } else if (!startsBlock(line) && !isBlank(lines[index - 1]) && !isTableStart(lines, index)) {
+        // Lazy continuation of the item's last paragraph
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      index++;
+    }
+
+    items.push(itemLines);
+
+    // Blank lines between items of the same list do not end it
+    let next = index;
+    while (next < lines.length && isBlank(lines[next])) {
+      next++;
+    }
+    const following = next < lines.length ? parseListMarker(lines[next]) : null;
+    if (following && following.ordered === first.ordered && following.indent < first.contentIndent && !RULE.test(lines[next])) {
+      index = next;
+      marker = following;
+    } else {
+      marker = null;
+    }
+  }
+
+  const node: ADFNode = first.ordered
+    ? { type: 'orderedList', ...(first.start !== 1 ? { attrs: { order: first.start } } : {}), content: items.map(listItem) }
+    : { type: 'bulletList', content: items.map(listItem) };
+  return { node, next: index };
+}
+
+function parseBlocks(lines: string[]): ADFNode[] {
+  const blocks: ADFNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, marker, language] = fence;
+      const indent = indentOf(line);
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !closing.test(lines[index])) {
+        // Content is dedented by as much as the opening fence was indented
+        code.push(lines[index].replace(new RegExp(`^ {0,${indent}}`), ''));
+        index++;
+      }
+      index++;
+      blocks.push(codeBlock(code, language));
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const code: string[] = [];
+      while (index < lines.length && (isBlank(lines[index]) || INDENTED_CODE.test(lines[index]))) {
+        code.push(lines[index].replace(INDENTED_CODE, ''));
+        index++;
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) {
+        code.pop();
+      }
+      blocks.push(codeBlock(code, ''));
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const text = (heading[2] || '').trim();
+      blocks.push({ type: 'heading', attrs: { level: heading[1].length }, ...(text ? { content: parseInline(text) } : {}) });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      // Unmarked lines continue the quote's paragraph until a blank line
+      while (index < lines.length && (QUOTE.test(lines[index]) || (quoted.length > 0 && !isBlank(lines[index]) && !startsBlock(lines[index])))) {
+        quoted.push(lines[index].replace(QUOTE, ''));
+        index++;
+      }
+      blocks.push({ type: 'blockquote', content: nestable(parseBlocks(quoted)) });
+      continue;
+    }
+
+    if (parseListMarker(line)) {
+      const { node, next } = parseList(lines, index);
+      blocks.push(node);
+      index = next;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const rows = [splitRow(line)];
+      index += 2;
+      while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+        rows.push(splitRow(lines[index]));
+        index++;
+      }
+      blocks.push(table(rows));
+      continue;
+    }
+
+    // Paragraph: lines up to a blank line or the start of another block
+    const text = [line];
+    index++;
+    while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines[index]) && !isTableStart(lines, index)) {
+      // "Title" over "===" or "---" is a heading
+      if (SETEXT.test(lines[index])) {
+        break;
+      }
+      text.push(lines[index]);
+      index++;
+    }
+    if (index < lines.length && SETEXT.test(lines[index])) {
+      const level = lines[index].trim().startsWith('=') ? 1 : 2;
+      blocks.push({ type: 'heading', attrs: { level }, content: parseInline(text.map(part => part.trim()).join('\n')) });
+      index++;
+      continue;
+    }
+    blocks.push(paragraph(text.join('\n')));
+  }
+
+  return blocks;
+}
+
+// Index of the code span closing a run of `length` backticks that ends before `from`, or -1
+function findCodeSpanEnd(text: string, from: number, length: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] !== '`') {
+      continue;
+    }
+    let run = 1;
+    while (text[i + run] === '`') {
+      run++;
+    }
+    if (run === length) {
+      return i;
+    }
+    i += run - 1;
+  }
+  return -1;
+}
+
+// Index of the closing delimiter for emphasis opened at `from`, skipping code spans,
+// escapes and runs of a different length (those belong to nested emphasis)
+function findEmphasisEnd(text: string, from: number, delimiter: string): number {
+  const char = delimiter[0];
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      let run = 1;
+      while (text[i + run] === '`') {
+        run++;
+      }
+      const end = findCodeSpanEnd(text, i + run, run);
+      i = end >= 0 ? end + run - 1 : i + run - 1;
+      continue;
+    }
+    if (text[i] !== char) {
+      continue;
+    }
+    let run = 1;
+    while (text[i + run] === char) {
+      run++;
+    }
+    const closes = run === delimiter.length && !/\s/.test(text[i - 1]) &&
+      (char !== '_' || !/[\p{L}\p{N}]/u.test(text[i + run] || ''));
+    if (closes && i > from) {
+      return i;
+    }
+    i += run - 1;
+  }
+  return -1;
+}
+
+// Index of the "]" closing a link label opened at `from`, allowing nested brackets
+function findLabelEnd(text: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    }
+  }
+  return -1;
+}
+
+// "(url)" or "(url "title")" right after a link label; the title is dropped
+function parseDestination(text: string, from: number): { href: string; end: number } | null {
+  const match = text.slice(from).match(/^\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/);
+  if (!match) {
+    return null;
+  }
+  return { href: match[1].replace(/^<|>$/g, ''), end: from + match[0].length };
+}
+
+const withMark = (marks: ADFMark[], mark: ADFMark): ADFMark[] => [...marks.filter(existing => existing.type !== mark.type), mark];
+
+// Inline Markdown to ADF inline nodes. Line breaks become hard breaks.
+export function parseInline(text: string, marks: ADFMark[] = []): ADFNode[] {
+  const nodes: ADFNode[] = [];
+  let buffer = '';
+
+  const pushText = (value: string, nodeMarks: ADFMark[]) => {
+    if (!value) {
+      return;
+    }
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text' && JSON.stringify(last.marks || []) === JSON.stringify(nodeMarks)) {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value, ...(nodeMarks.length > 0 ? { marks: nodeMarks } : {}) });
+    }
+  };
+  const flush = () => {
+    pushText(buffer, marks);
+    buffer = '';
+  };
+  const pushNodes = (inner: ADFNode[]) => {
+    flush();
+    inner.forEach(node => node.type === 'text' ? pushText(node.text, node.marks || []) : nodes.push(node));
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && text[i + 1] === '\n') {
+      continue;
+    }
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i++;
+      continue;
+    }
+
+    if (char === '\n') {
+      buffer = buffer.replace(/[ \t]+$/, '');
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      while (text[i + 1] === ' ' || text[i + 1] === '\t') {
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '`') {
+      let run = 1;
+      while (text[i + run] === '`') {
+        run++;
+      }
+      const end = findCodeSpanEnd(text, i + run, run);
+      if (end < 0) {
+        buffer += '`'.repeat(run);
+        i += run - 1;
+        continue;
+      }
+      let code = text.slice(i + run, end).replace(/\n/g, ' ');
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim()) {
+        code = code.slice(1, -1);
+      }
+      flush();
+      // Code can only be combined with a link in ADF
+      pushText(code, [...marks.filter(mark => mark.type === 'link'), { type: 'code' }]);
+      i = end + run - 1;
+      continue;
+    }
+
+    // Links and images; an image cannot be uploaded from here, so it becomes a link with its alt text
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const labelStart = char === '!' ? i + 2 : i + 1;
+      const labelEnd = findLabelEnd(text, labelStart);
+      const destination = labelEnd >= 0 ? parseDestination(text, labelEnd + 1) : null;
+      if (destination) {
+        const label = text.slice(labelStart, labelEnd) || destination.href;
+        pushNodes(parseInline(label, withMark(marks, { type: 'link', attrs: { href: destination.href } })));
+        i = destination.end - 1;
+        continue;
+      }
+    }
+
+    const autolink = rest.match(/^<((?:https?|ftp):\/\/[^\s<>]+|mailto:[^\s<>]+)>/i);
+    if (autolink) {
+      flush();
+      pushText(autolink[1].replace(/^mailto:/i, ''), withMark(marks, { type: 'link', attrs: { href: autolink[1] } }));
+      i += autolink[0].length - 1;
+      continue;
+    }
+
+    // Bare URLs, without trailing punctuation or an unmatched closing parenthesis
+    const url = /[\p{L}\p{N}]/u.test(text[i - 1] || '') ? null : rest.match(/^https?:\/\/[^\s<>]+/i);
+    if (url && !marks.some(mark => mark.type === 'link')) {
+      let href = url[0].replace(/[.,;:!?'"*_~]+$/, '');
+      while (href.endsWith(')') && (href.match(/\(/g) || []).length < (href.match(/\)/g) || []).length) {
+        href = href.slice(0, -1);
+      }
+      flush();
+      pushText(href, withMark(marks, { type: 'link', attrs: { href } }));
+      i += href.length - 1;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || (char === '~' && text[i + 1] === '~')) {
+      let run = 1;
+      while (text[i + run] === char) {
+        run++;
+      }
+      const opens = !/\s/.test(text[i + run] || ' ') && (char !== '_' || !/[\p{L}\p{N}]/u.test(text[i - 1] || ''));
+      const delimiter = char === '~' ? '~~' : char.repeat(Math.min(run, 3));
+      const end = opens && run === delimiter.length ? findEmphasisEnd(text, i + run, delimiter) : -1;
+      if (end < 0) {
+        buffer += char.repeat(run);
+        i += run - 1;
+        continue;
+      }
+
+      const inner = text.slice(i + run, end);
+      const innerMarks = char === '~' ? withMark(marks, { type: 'strike' })
+        : run === 1 ? withMark(marks, { type: 'em' })
+        : run === 2 ? withMark(marks, { type: 'strong' })
+        : withMark(withMark(marks, { type: 'strong' }), { type: 'em' });
+      pushNodes(parseInline(inner, innerMarks));
+      i = end + run - 1;
+      continue;
+    }
+
+    buffer += char;
+  }
+
+  flush();
+  // Line breaks at the very start or end of the content carry no meaning
+  while (nodes[0]?.type === 'hardBreak') {
+    nodes.shift();
+  }
+  while (nodes[nodes.length - 1]?.type === 'hardBreak') {
+    nodes.pop();
+  }
+  return nodes;
+}
+
+// Markdown text as an ADF document
+export function markdownToADF(markdown: string): ADFDocument {
+  const lines = String(markdown || '').replace(/\r\n?/g, '\n').split('\n').map(expandTabs);
+  return { type: 'doc', version: 1, content: parseBlocks(lines) };
+}
@@ -0,0 +1,97 @@
+import { ChatIntent, ChatIntentType, ConversationState, IssueField, JiraIssue } from '../types/types';
+
+// pendingField value while waiting for search terms outside of issue creation
+export const SEARCH_QUERY_FIELD = 'searchQuery';
+
+const ISSUE_TYPES = ['Bug', 'Task', 'Story', 'Epic'];
+const PRIORITIES = ['Lowest', 'Low', 'Medium', 'High', 'Highest', 'Critical'];
+
+const QUESTIONS: Record<IssueField, string> = {
+  project: 'Which project should this go in? Please give the project key (e.g. PROJ).',
+  issueType: 'What type of issue is it: Bug, Task, Story or Epic?',
+  title: 'What short title should the issue have?',
+  description: 'Please describe it: what happens, what you expected, and how to reproduce it.',
+  priority: 'How urgent is it: Low, Medium, High or Critical?',
+  labels: 'Any labels to add? (comma-separated, or "none")'
+};
+
+const UNSUPPORTED: Partial<Record<ChatIntentType, string>> = {
+  view: 'open issues',
+  update: 'update issues',
+  comment: 'comment on issues',
+  transition: 'move issues through the workflow',
+  assign: 'assign issues',
+  link: 'link issues',
+  summarize: 'summarize issues'
+};
+
+const OFFLINE_HELP = 'The AI service is unavailable, so I can only follow simple requests for now. ' +
+  'Try "create a bug", "new task" or "search for login errors".';
+
+// Match a word against a fixed list of values, returning the canonical spelling
+function pickOption(message: string, options: string[]): string | undefined {
+  const match = message.match(new RegExp(`\\b(${options.join('|')})\\b`, 'i'));
+  return match ? options.find(option => option.toLowerCase() === match[1].toLowerCase()) : undefined;
+}
+
+// Deterministic dialogue used while the language model is unreachable. Issue creation is a
+// slot-filling state machine: pendingField names the slot the last question asked about,
+// the next message fills it, and the first empty required slot becomes the next question.
+export class OfflineAssistant {
+  // Store the answer to the pending question; returns the issue unchanged if it does not fit
+  fillSlot(message: string, issue: Partial<JiraIssue>, pendingField: string | null): Partial<JiraIssue> {
+    const answer = message.trim().replace(/^["']|["']$/g, '');
+    const updated = { ...issue };
+
+    switch (pendingField) {
+      case 'project': {
+        const key = answer.match(/^[A-Za-z][A-Za-z0-9]+$/) ? answer : (answer.match(/\b([A-Z][A-Z0-9]+)\b/) || [])[1];
+        if (key) updated.project = key.toUpperCase();
+        break;
+      }
+      case 'issueType': {
+        const issueType = pickOption(answer, ISSUE_TYPES);
+        if (issueType) updated.issueType = issueType;
+        break;
+      }
+      case 'priority': {
+        const priority = pickOption(answer, PRIORITIES);
+        if (priority) updated.priority = priority;
+        break;
+      }
+      case 'title':
+        if (answer) updated.title = answer.slice(0, 255);
+        break;
+      case 'description':
+        if (answer) updated.description = answer;
+        break;
+      case 'labels':
+        updated.labels = /^(none|no|-)$/i.test(answer)
+          ? []
+          : answer.split(/[,\s]+/).map(label => label.toLowerCase()).filter(Boolean);
+        break;
+    }
+
+    return updated;
+  }
+
+  // Reply for the current state. Also arms the search slot when a search has no terms yet.
+  respond(intent: ChatIntent, state: ConversationState): string {
+    if (state.isCreatingIssue) {
+      const question = QUESTIONS[state.pendingField as IssueField];
+      return question || 'That is everything I need for the issue.';
+    }
+
+    switch (intent.type) {
+      case 'create':
+        return `Let's create an issue. ${QUESTIONS.project}`;
+      case 'search':
+        state.pendingField = SEARCH_QUERY_FIELD;
+        return 'What should I search for? Give me a few words from the summary or description.';
+      case 'small_talk':
+        return OFFLINE_HELP;
+      default:
+        return `I can't ${UNSUPPORTED[intent.type] || 'do that'} while the AI service is unavailable. ${OFFLINE_HELP}`;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { JiraIssue, OutboxEntry } from '../types/types';
+
+// Issues that could not be created yet, persisted on disk until they are submitted or discarded
+export class Outbox {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  list(): OutboxEntry[] {
+    return this.read();
+  }
+
+  get(id: string): OutboxEntry | undefined {
+    return this.read().find(entry => entry.id === id);
+  }
+
+  size(): number {
+    return this.read().length;
+  }
+
+  // Queue an issue after a failed create attempt
+  add(id: string, issue: JiraIssue, error: string): OutboxEntry {
+    const now = new Date().toISOString();
+    const entry: OutboxEntry = {
+      id,
+      issue: { ...issue },
+      queuedAt: now,
+      attempts: 1,
+      lastAttemptAt: now,
+      lastError: error
+    };
+
+    const entries = this.read().filter(existing => existing.id !== id);
+    entries.push(entry);
+    this.write(entries);
+    return entry;
+  }
+
+  // An edited issue gets another chance at automatic sync
+  updateIssue(id: string, issue: JiraIssue): void {
+    this.modify(id, entry => ({ ...entry, issue: { ...issue }, rejected: false }));
+  }
+
+  recordFailure(id: string, error: string, rejected: boolean = false): void {
+    this.modify(id, entry => ({
+      ...entry,
+      attempts: entry.attempts + 1,
+      lastAttemptAt: new Date().toISOString(),
+      lastError: error,
+      rejected
+    }));
+  }
+
+  remove(id: string): void {
+    this.write(this.read().filter(entry => entry.id !== id));
+  }
+
+  private modify(id: string, change: (entry: OutboxEntry) => OutboxEntry): void {
+    const entries = this.read();
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index === -1) {
+      throw new Error(`No queued issue with id ${id}`);
+    }
+    entries[index] = change(entries[index]);
+    this.write(entries);
+  }
+
+  private read(): OutboxEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return Array.isArray(parsed.entries) ? parsed.entries : [];
+    } catch (error) {
+      throw new Error(`Could not read outbox at ${this.filePath}: ${error.message}`);
+    }
+  }
+
+  // Write to a temporary file and rename, so a crash never leaves a truncated outbox
+  private write(entries: OutboxEntry[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ version: 1, entries }, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
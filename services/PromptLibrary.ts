@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import { PromptTemplate, PromptVariables, RenderedPrompt } from '../types/types';
+
+// Templates shipped with the agent: <repo>/prompts, found from both the source and the dist layout
+export const BUNDLED_PROMPTS_DIR = [
+  path.resolve(__dirname, '..', 'prompts'),
+  path.resolve(__dirname, '..', '..', 'prompts')
+].find(directory => fs.existsSync(directory)) || path.resolve(__dirname, '..', 'prompts');
+
+// Split "---\nkey: value\n---\nbody" into front matter and body
+function parseTemplate(name: string, source: string, raw: string): PromptTemplate {
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  const meta: Record<string, string> = {};
+
+  if (match) {
+    match[1].split(/\r?\n/).forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        meta[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    });
+  }
+
+  return {
+    name,
+    version: meta.version || 'unversioned',
+    source,
+    body: (match ? match[2] : raw).trim()
+  };
+}
+
+// Prompt templates stored as Markdown files with {{variable}} placeholders.
+// Lookup order for "<name>.md": projects/<KEY>/ in each directory, then each directory itself,
+// so a team can override one prompt for one project without copying the rest.
+export class PromptLibrary {
+  private directories: string[];
+
+  constructor(directories: string[] = [BUNDLED_PROMPTS_DIR]) {
+    this.directories = directories;
+  }
+
+  // Files are read on every call so edits apply without a restart
+  load(name: string, project?: string | null): PromptTemplate {
+    const candidates = [
+      ...(project ? this.directories.map(directory => path.join(directory, 'projects', project.toUpperCase(), `${name}.md`)) : []),
+      ...this.directories.map(directory => path.join(directory, `${name}.md`))
+    ];
+
+    const source = candidates.find(candidate => fs.existsSync(candidate));
+    if (!source) {
+      throw new Error(`Prompt template "${name}" not found in ${this.directories.join(', ')}`);
+    }
+    return parseTemplate(name, source, fs.readFileSync(source, 'utf8'));
+  }
+
+  // Fill in the placeholders; a placeholder without a value is an error rather than silent text
+  render(name: string, variables: PromptVariables, project?: string | null): RenderedPrompt {
+    const template = this.load(name, project);
+
+    const text = template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, variable) => {
+      if (variables[variable] === undefined) {
+        throw new Error(`Prompt ${template.source} uses unknown variable ${placeholder} (known: ${Object.keys(variables).join(', ')})`);
+      }
+      return variables[variable];
+    });
+
+    return { name, version: template.version, source: template.source, text };
+  }
+}
@@ -0,0 +1,79 @@
+import { MCPTransportError } from './transports/MCPTransport';
+
+export interface RetryOptions {
+  maxAttempts: number;   // Total attempts, including the first
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000
+};
+
+// HTTP statuses worth retrying: rate limiting and transient server failures
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Parse a Retry-After header given in seconds or as an HTTP date
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Exponential backoff with full jitter; a server-provided Retry-After takes precedence
+export function computeBackoff(attempt: number, options: RetryOptions, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+// Whether a failure is likely to succeed on a later attempt
+export function isTransientError(error: any): boolean {
+  if (!(error instanceof MCPTransportError)) {
+    return false;
+  }
+  return error.status === undefined || RETRYABLE_STATUSES.has(error.status);
+}
+
+// Whether the failed request may have taken effect on the server
+export function isOutcomeUnknown(error: any): boolean {
+  return error instanceof MCPTransportError && error.outcomeUnknown;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Run an operation, retrying transient failures with backoff
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  shouldRetry: (error: any) => boolean = isTransientError,
+  onRetry?: (error: any, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delay = computeBackoff(attempt, options, error.retryAfterMs);
+      onRetry?.(error, attempt, delay);
+      await sleep(delay);
+    }
+  }
+}
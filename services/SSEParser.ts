@@ -0,0 +1,105 @@
+// A single server-sent event
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+// Incremental text/event-stream parser; feed it chunks as they arrive
+export class SSEParser {
+  private buffer: string = '';
+  private eventType: string = '';
+  private dataLines: string[] = [];
+  private lastEventId?: string;
+  private retry?: number;
+
+  // Parse a chunk and return any events it completed
+  push(chunk: string): SSEEvent[] {
+    this.buffer += chunk;
+    const events: SSEEvent[] = [];
+
+    let newline = this.findLineEnd();
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      // Treat \r\n as a single line terminator
+      const skip = this.buffer[newline] === '\r' && this.buffer[newline + 1] === '\n' ? 2 : 1;
+      this.buffer = this.buffer.slice(newline + skip);
+
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+      newline = this.findLineEnd();
+    }
+
+    return events;
+  }
+
+  // Dispatch whatever is left once the stream has ended
+  flush(): SSEEvent[] {
+    const events = this.buffer.length > 0 ? this.push('\n') : [];
+    const last = this.processLine('');
+    return last ? [...events, last] : events;
+  }
+
+  private findLineEnd(): number {
+    const match = this.buffer.search(/[\r\n]/);
+    // A trailing \r may be the first half of \r\n; wait for more input
+    if (match === this.buffer.length - 1 && this.buffer[match] === '\r') {
+      return -1;
+    }
+    return match;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    // Blank line dispatches the pending event
+    if (line === '') {
+      if (this.dataLines.length === 0) {
+        this.eventType = '';
+        return null;
+      }
+
+      const event: SSEEvent = {
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.lastEventId,
+        retry: this.retry
+      };
+      this.eventType = '';
+      this.dataLines = [];
+      return event;
+    }
+
+    // Comment lines are keep-alives
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+    }
+
+    return null;
+  }
+}
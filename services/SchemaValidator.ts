@@ -0,0 +1,139 @@
+import { JSONSchema } from '../types/types';
+
+// Raised when tool arguments do not satisfy the tool's input schema
+export class ToolArgumentError extends Error {
+  readonly toolName: string;
+  readonly issues: string[];
+
+  constructor(toolName: string, issues: string[]) {
+    super(`Invalid arguments for tool ${toolName}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ToolArgumentError';
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+// Validate a value against the subset of JSON Schema that MCP tool schemas use.
+// Returns one readable message per problem, prefixed with the path of the offending field.
+export function validateAgainstSchema(value: any, schema: JSONSchema, path: string = ''): string[] {
+  if (!schema || typeof schema !== 'object') {
+    return [];
+  }
+
+  const label = path || 'arguments';
+
+  if (schema.anyOf || schema.oneOf) {
+    const options = schema.anyOf || schema.oneOf;
+    const matches = options.filter(option => validateAgainstSchema(value, option, path).length === 0);
+    if (matches.length === 0) {
+      return [`${label}: does not match any of the allowed forms`];
+    }
+    if (schema.oneOf && matches.length > 1) {
+      return [`${label}: matches more than one of the allowed forms`];
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    return [`${label}: must be ${JSON.stringify(schema.const)}`];
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    return [`${label}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')} (got ${JSON.stringify(value)})`];
+  }
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some(type => matchesType(value, type))) {
+      return [`${label}: expected ${allowed.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${label}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${label}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${label}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${label}: must contain at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${label}: must contain at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {};
+
+    (schema.required || []).forEach(field => {
+      if (value[field] === undefined || value[field] === null) {
+        errors.push(`${joinPath(path, field)}: is required`);
+      }
+    });
+
+    Object.keys(value).forEach(field => {
+      if (value[field] === undefined) return;
+
+      if (properties[field]) {
+        errors.push(...validateAgainstSchema(value[field], properties[field], joinPath(path, field)));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${joinPath(path, field)}: is not a recognized field (expected one of ${Object.keys(properties).join(', ') || 'none'})`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(value[field], schema.additionalProperties, joinPath(path, field)));
+      }
+    });
+  }
+
+  return errors;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
@@ -0,0 +1,65 @@
+import { MCPTool } from '../types/types';
+import { ToolArgumentError, validateAgainstSchema } from './SchemaValidator';
+
+// Typed view of the tools an MCP server reported through tools/list
+export class ToolRegistry {
+  private tools: Map<string, MCPTool> = new Map();
+
+  constructor(tools: MCPTool[]) {
+    tools.forEach(tool => this.tools.set(tool.name, tool));
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): MCPTool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): MCPTool[] {
+    return [...this.tools.values()];
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  // Tool names containing the given text (case-insensitive)
+  search(text: string): MCPTool[] {
+    const needle = text.toLowerCase();
+    return this.list().filter(tool =>
+      tool.name.toLowerCase().includes(needle) ||
+      (tool.title || '').toLowerCase().includes(needle)
+    );
+  }
+
+  // Whether calling the tool has no side effects. Servers can say so explicitly; otherwise
+  // judge by the verb in the tool name, treating anything unrecognized as a write.
+  isReadOnly(name: string): boolean {
+    const tool = this.tools.get(name);
+    if (tool?.annotations?.readOnlyHint !== undefined) {
+      return tool.annotations.readOnlyHint;
+    }
+    return /(^|[._-])(find|search|get|list|lookup|retrieve|read|fetch|view)([._-]|$)/i.test(name);
+  }
+
+  // Throw a ToolArgumentError if the arguments do not satisfy the tool's input schema
+  validateArguments(name: string, args: Record<string, any>): void {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      const suggestions = this.search(name.split(/[_\-.]/).pop() || name).slice(0, 3).map(candidate => candidate.name);
+      const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+      throw new Error(`Tool ${name} is not offered by the MCP server.${hint}`);
+    }
+
+    const issues = validateAgainstSchema(args, tool.inputSchema);
+    if (issues.length > 0) {
+      throw new ToolArgumentError(name, issues);
+    }
+  }
+}
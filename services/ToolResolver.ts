@@ -0,0 +1,133 @@
+import { JiraOperation, MCPTool, ToolResolution } from '../types/types';
+import { ToolRegistry } from './ToolRegistry';
+
+// Name patterns tried in order for each logical operation. Zapier derives tool names from the
+// enabled actions (e.g. jira_software_cloud_find_issue or jira_create_issue), so the prefix is
+// free-form. Every pattern is anchored at the end: related actions share the same words
+// (get_issue and get_issue_types, update_issue and update_issue_priority).
+export const DEFAULT_TOOL_PATTERNS: Record<JiraOperation, RegExp[]> = {
+  createIssue: [/create_?issue$/i, /(create|new).*issue$/i],
+  searchIssues: [/find_?issues?_?(by|using|with)_?jql$/i, /search.*issues?$/i, /(find|list).*issues$/i, /find.*issue$/i],
+  getIssue: [/get_?issue$/i, /find_?issue(_by_key)?$/i, /(get|find|retrieve).*issue(_by_key)?$/i],
+  listProjects: [/(find|list|get).*projects?$/i],
+  listIssueTypes: [/issue_?types?$/i],
+  listPriorities: [/(find|list|get).*priorit(y|ies)$/i, /priorities$/i],
+  addComment: [/(add|create).*comment(_to_issue)?$/i],
+  updateIssue: [/(update|edit)_?issue$/i, /(update|edit|modify).*issue$/i],
+  listTransitions: [/(find|list|get).*transitions$/i, /transitions$/i],
+  transitionIssue: [/transition_?issue$/i, /(do|perform|run|execute)_?transition$/i, /(change|move|update).*status$/i],
+  listComments: [/(find|list|get).*comments(_on_issue)?$/i]
+};
+
+// Raised when an operation cannot be mapped to any tool the server offers
+export class ToolResolutionError extends Error {
+  readonly operation: JiraOperation;
+
+  constructor(operation: JiraOperation, message: string) {
+    super(message);
+    this.name = 'ToolResolutionError';
+    this.operation = operation;
+  }
+}
+
+// Maps logical Jira operations to the tool names a particular MCP server exposes
+export class ToolResolver {
+  private overrides: Partial<Record<JiraOperation, string>>;
+  private patterns: Record<JiraOperation, RegExp[]>;
+
+  constructor(
+    overrides: Partial<Record<JiraOperation, string>> = {},
+    patterns: Record<JiraOperation, RegExp[]> = DEFAULT_TOOL_PATTERNS
+  ) {
+    this.overrides = overrides;
+    this.patterns = patterns;
+  }
+
+  operations(): JiraOperation[] {
+    return Object.keys(this.patterns) as JiraOperation[];
+  }
+
+  // Tool name for the operation, or a ToolResolutionError explaining what is missing
+  resolve(operation: JiraOperation, registry: ToolRegistry): string {
+    const resolution = this.explain(operation, registry);
+    if (!resolution.toolName) {
+      throw new ToolResolutionError(operation, resolution.problem);
+    }
+    return resolution.toolName;
+  }
+
+  // Resolve without throwing; used for status output
+  explain(operation: JiraOperation, registry: ToolRegistry): ToolResolution {
+    const configured = this.overrides[operation];
+
+    if (configured) {
+      // A configured value wrapped in slashes is a pattern rather than an exact name
+      const patternMatch = configured.match(/^\/(.+)\/([a-z]*)$/);
+      if (patternMatch) {
+        const tool = this.pickBest(registry.list(), [new RegExp(patternMatch[1], patternMatch[2] || 'i')]);
+        if (tool) {
+          return { operation, toolName: tool.name, source: 'config' };
+        }
+        return {
+          operation,
+          toolName: null,
+          source: null,
+          problem: `No MCP tool matches the pattern ${configured} configured for ${operation}. ${this.describeAvailable(registry)}`
+        };
+      }
+
+      if (registry.has(configured)) {
+        return { operation, toolName: configured, source: 'config' };
+      }
+      return {
+        operation,
+        toolName: null,
+        source: null,
+        problem: `Tool "${configured}" configured for ${operation} is not offered by the MCP server. ${this.describeAvailable(registry)}`
+      };
+    }
+
+    const tool = this.pickBest(registry.list(), this.patterns[operation] || []);
+    if (tool) {
+      return { operation, toolName: tool.name, source: 'pattern' };
+    }
+
+    return {
+      operation,
+      toolName: null,
+      source: null,
+      problem: `No MCP tool found for ${operation}. Enable the matching Jira action in Zapier, ` +
+        `or set JIRA_TOOL_MAP='{"${operation}":"<tool name>"}'. ${this.describeAvailable(registry)}`
+    };
+  }
+
+  // Resolution status of every operation
+  explainAll(registry: ToolRegistry): ToolResolution[] {
+    return this.operations().map(operation => this.explain(operation, registry));
+  }
+
+  // Earlier patterns win; among equal matches prefer Jira tools, then the shortest name
+  private pickBest(tools: MCPTool[], patterns: RegExp[]): MCPTool | null {
+    for (const pattern of patterns) {
+      const matches = tools.filter(tool => pattern.test(tool.name));
+      if (matches.length > 0) {
+        return matches.sort((a, b) => {
+          const jiraA = /jira/i.test(a.name) ? 0 : 1;
+          const jiraB = /jira/i.test(b.name) ? 0 : 1;
+          return jiraA - jiraB || a.name.length - b.name.length;
+        })[0];
+      }
+    }
+    return null;
+  }
+
+  private describeAvailable(registry: ToolRegistry): string {
+    const jiraTools = registry.search('jira').map(tool => tool.name);
+    if (jiraTools.length > 0) {
+      return `Available Jira tools: ${jiraTools.join(', ')}`;
+    }
+    return registry.size > 0
+      ? `The server offers no Jira tools (it has: ${registry.names().join(', ')})`
+      : 'The server offers no tools.';
+  }
+}
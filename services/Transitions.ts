@@ -0,0 +1,26 @@
+import { JiraTransition } from '../types/types';
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+// Transition matching what the user asked for: a target status ("In Review") or a
+// transition name or verb ("Start Progress", "resolve"). Exact matches win over partial ones.
+export function findTransition(transitions: JiraTransition[], wanted: string): JiraTransition | null {
+  const target = normalize(wanted);
+  const candidates = transitions.filter(transition => transition.name && transition.toStatus);
+  if (!target) {
+    return null;
+  }
+
+  return candidates.find(transition => normalize(transition.toStatus) === target) ||
+    candidates.find(transition => normalize(transition.name) === target) ||
+    candidates.find(transition => normalize(transition.toStatus).includes(target) || target.includes(normalize(transition.toStatus))) ||
+    // A verb such as "close" or "resolving" names the transition it starts ("Close Issue", "Resolve")
+    candidates.find(transition => target.split(' ')[0].startsWith(normalize(transition.name).split(' ')[0].replace(/e$/, ''))) ||
+    null;
+}
+
+// Allowed resolution matching the user's wording, case-insensitively
+export function findResolution(resolutions: string[], wanted: string): string | null {
+  const target = normalize(wanted).replace(/[’']/g, '');
+  return resolutions.find(resolution => normalize(resolution).replace(/[’']/g, '') === target) || null;
+}
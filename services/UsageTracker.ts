@@ -0,0 +1,175 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { LLMUsage, ModelPrice, UsageRecord, UsageReport, UsageTotals } from '../types/types';
+
+// USD per million tokens; model names match by prefix, so dated snapshots share a price
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+// Days of totals shown in reports
+const REPORT_DAYS = 7;
+
+// Earlier sessions shown in reports, and how many are kept on disk
+const REPORT_SESSIONS = 5;
+const KEPT_SESSIONS = 50;
+
+// Totals of one run of the app, by session id
+interface StoredSession {
+  startedAt: string;
+  totals: UsageTotals;
+}
+
+// Contents of the usage file
+interface StoredUsage {
+  days: Record<string, UsageTotals>;
+  sessions: Record<string, StoredSession>;
+}
+
+// Raised before a model call once the daily spending cap has been reached
+export class SpendingCapError extends Error {
+  constructor(capUsd: number, spentUsd: number) {
+    super(`Daily spending cap of $${capUsd.toFixed(2)} reached ($${spentUsd.toFixed(4)} spent today)`);
+    this.name = 'SpendingCapError';
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpricedRequests: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    requests: totals.requests + 1,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    completionTokens: totals.completionTokens + record.completionTokens,
+    costUsd: totals.costUsd + (record.costUsd || 0),
+    unpricedRequests: totals.unpricedRequests + (record.costUsd === null ? 1 : 0)
+  };
+}
+
+// Calendar day in local time, e.g. 2024-05-31
+function localDate(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Token usage and cost of model calls: per request in memory, per session and per day on disk
+export class UsageTracker {
+  private filePath: string;
+  private prices: Record<string, ModelPrice>;
+  private dailyCapUsd: number | null;
+  private records: UsageRecord[] = [];
+  private sessionId = randomUUID().slice(0, 8);
+  private sessionStartedAt = new Date().toISOString();
+
+  constructor(filePath: string, prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES, dailyCapUsd: number | null = null) {
+    this.filePath = filePath;
+    this.prices = prices;
+    this.dailyCapUsd = dailyCapUsd;
+  }
+
+  // Price for a model: exact name, otherwise the longest configured prefix
+  priceFor(model: string): ModelPrice | null {
+    if (this.prices[model]) {
+      return this.prices[model];
+    }
+    const prefix = Object.keys(this.prices)
+      .filter(name => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.prices[prefix] : null;
+  }
+
+  // Throw a SpendingCapError if today's spend has reached the cap
+  assertWithinCap(): void {
+    if (this.dailyCapUsd === null) {
+      return;
+    }
+    const spent = this.readUsage().days[localDate()]?.costUsd || 0;
+    if (spent >= this.dailyCapUsd) {
+      throw new SpendingCapError(this.dailyCapUsd, spent);
+    }
+  }
+
+  record(model: string, purpose: string, usage: LLMUsage, estimated: boolean = false): UsageRecord {
+    const price = this.priceFor(model);
+    const record: UsageRecord = {
+      at: new Date().toISOString(),
+      model,
+      purpose,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd: price ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1e6 : null,
+      estimated
+    };
+
+    this.records.push(record);
+
+    const stored = this.readUsage();
+    const today = localDate();
+    stored.days[today] = addRecord(stored.days[today] || emptyTotals(), record);
+    const session = stored.sessions[this.sessionId] || { startedAt: this.sessionStartedAt, totals: emptyTotals() };
+    stored.sessions[this.sessionId] = { ...session, totals: addRecord(session.totals, record) };
+    this.writeUsage(stored);
+
+    return record;
+  }
+
+  // Requests made in this session
+  getRecords(): UsageRecord[] {
+    return [...this.records];
+  }
+
+  report(): UsageReport {
+    const { days, sessions } = this.readUsage();
+    const sessionByModel: Record<string, UsageTotals> = {};
+    this.records.forEach(record => {
+      sessionByModel[record.model] = addRecord(sessionByModel[record.model] || emptyTotals(), record);
+    });
+
+    return {
+      session: this.records.reduce(addRecord, emptyTotals()),
+      sessionByModel,
+      recentSessions: this.newestSessions(sessions)
+        .filter(([id]) => id !== this.sessionId)
+        .slice(0, REPORT_SESSIONS)
+        .map(([, session]) => session),
+      today: days[localDate()] || emptyTotals(),
+      recentDays: Object.keys(days).sort().reverse().slice(0, REPORT_DAYS).map(date => ({ date, totals: days[date] })),
+      dailyCapUsd: this.dailyCapUsd
+    };
+  }
+
+  private newestSessions(sessions: Record<string, StoredSession>): [string, StoredSession][] {
+    return Object.entries(sessions).sort(([, a], [, b]) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  private readUsage(): StoredUsage {
+    if (!fs.existsSync(this.filePath)) {
+      return { days: {}, sessions: {} };
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      const section = (value: any) => value && typeof value === 'object' ? value : {};
+      return { days: section(parsed.days), sessions: section(parsed.sessions) };
+    } catch (error) {
+      throw new Error(`Could not read usage totals at ${this.filePath}: ${error.message}`);
+    }
+  }
+
+  // Write to a temporary file and rename, like the outbox. Only the newest sessions are kept.
+  private writeUsage({ days, sessions }: StoredUsage): void {
+    const kept = Object.fromEntries(this.newestSessions(sessions).slice(0, KEPT_SESSIONS));
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ version: 1, days, sessions: kept }, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
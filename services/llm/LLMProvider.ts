@@ -0,0 +1,20 @@
+import { LLMCompletion, LLMRequest, LLMSettings, ResponseStreamOptions, StreamedCompletion } from '../../types/types';
+
+// A chat model AIAgent can talk to: OpenAI, a local OpenAI-compatible server, or a script
+export interface LLMProvider {
+  // Short label for status output, e.g. "openai gpt-4o-mini"
+  readonly description: string;
+
+  // Model and defaults used when a request does not override them
+  readonly settings: LLMSettings;
+
+  // Wait for the whole reply
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+
+  // Pass text to onToken as it is generated; aborting the signal returns what arrived so far
+  stream(request: LLMRequest, options?: ResponseStreamOptions): Promise<StreamedCompletion>;
+
+  // Whether the model answers at all with the current configuration. A probe request goes
+  // through complete when given, so a wrapper can cap and record it like any other call
+  testConnection(complete?: (request: LLMRequest) => Promise<LLMCompletion>): Promise<boolean>;
+}
@@ -0,0 +1,58 @@
+import { LLMCompletion, LLMRequest, LLMSettings, LLMUsage, ResponseStreamOptions, StreamedCompletion } from '../../types/types';
+import { countTokens, estimateTextTokens } from '../ContextWindow';
+import { UsageTracker } from '../UsageTracker';
+import { LLMProvider } from './LLMProvider';
+
+// Wraps a provider to record the usage of every call and to refuse calls past the spending cap
+export class MeteredProvider implements LLMProvider {
+  private inner: LLMProvider;
+  private tracker: UsageTracker;
+
+  constructor(inner: LLMProvider, tracker: UsageTracker) {
+    this.inner = inner;
+    this.tracker = tracker;
+  }
+
+  get description(): string {
+    return this.inner.description;
+  }
+
+  get settings(): LLMSettings {
+    return this.inner.settings;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    this.tracker.assertWithinCap();
+    const completion = await this.inner.complete(request);
+    this.recordUsage(request, completion);
+    return completion;
+  }
+
+  async stream(request: LLMRequest, options?: ResponseStreamOptions): Promise<StreamedCompletion> {
+    this.tracker.assertWithinCap();
+    const completion = await this.inner.stream(request, options);
+    this.recordUsage(request, completion);
+    return completion;
+  }
+
+  // The probe is a real completion, so it is refused past the cap and its usage is recorded
+  async testConnection(): Promise<boolean> {
+    this.tracker.assertWithinCap();
+    return this.inner.testConnection(request => this.complete({ ...request, purpose: 'connection_test' }));
+  }
+
+  // Servers that report no usage (and interrupted streams) are billed by a local estimate
+  private recordUsage(request: LLMRequest, completion: LLMCompletion): void {
+    const purpose = request.purpose || request.responseSchema?.name || 'chat';
+    if (completion.usage) {
+      this.tracker.record(this.settings.model, purpose, completion.usage);
+      return;
+    }
+
+    const estimate: LLMUsage = {
+      promptTokens: countTokens(request.messages) + estimateTextTokens(JSON.stringify(request.tools || [])),
+      completionTokens: estimateTextTokens(completion.content + completion.toolCalls.map(call => call.name + call.arguments).join(''))
+    };
+    this.tracker.record(this.settings.model, purpose, estimate, true);
+  }
+}
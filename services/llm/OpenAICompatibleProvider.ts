@@ -0,0 +1,38 @@
+import OpenAI from 'openai';
+import { LLMRequest, LLMSettings } from '../../types/types';
+import { OpenAIProvider } from './OpenAIProvider';
+
+// Local servers that speak the OpenAI chat API (Ollama, llama.cpp, vLLM, LM Studio).
+// Most of them accept JSON mode but not strict json_schema, so schemas are sent as instructions.
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  private baseURL: string;
+
+  constructor(settings: LLMSettings, baseURL: string, apiKey?: string) {
+    // The SDK insists on a key even though local servers ignore it
+    super(settings, apiKey || 'not-needed', baseURL);
+    this.baseURL = baseURL;
+  }
+
+  get description(): string {
+    return `${this.settings.model} at ${this.baseURL}`;
+  }
+
+  protected toParams(request: LLMRequest): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    if (!request.responseSchema) {
+      return super.toParams(request);
+    }
+
+    const { responseSchema, ...rest } = request;
+    const params = super.toParams({
+      ...rest,
+      messages: [
+        ...rest.messages,
+        {
+          role: 'system',
+          content: `Reply with only a JSON object that matches this JSON schema:\n${JSON.stringify(responseSchema.schema)}`
+        }
+      ]
+    });
+    return { ...params, response_format: { type: 'json_object' } };
+  }
+}
@@ -0,0 +1,137 @@
+import OpenAI from 'openai';
+import { ChatMessage, ChatToolCall, LLMCompletion, LLMRequest, LLMSettings, LLMUsage, ResponseStreamOptions, StreamedCompletion } from '../../types/types';
+import { LLMProvider } from './LLMProvider';
+
+// Chat completions through the official OpenAI API (or a proxy of it)
+export class OpenAIProvider implements LLMProvider {
+  readonly settings: LLMSettings;
+  protected client: OpenAI;
+
+  constructor(settings: LLMSettings, apiKey?: string, baseURL?: string) {
+    this.settings = settings;
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  get description(): string {
+    return `openai ${this.settings.model}`;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const completion = await this.client.chat.completions.create(this.toParams(request));
+    const message = completion.choices[0].message;
+
+    return {
+      content: message.content || '',
+      toolCalls: (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+      })),
+      usage: this.toUsage(completion.usage)
+    };
+  }
+
+  // Assemble text and tool calls from the streamed deltas
+  async stream(request: LLMRequest, { onToken, signal }: ResponseStreamOptions = {}): Promise<StreamedCompletion> {
+    const result: StreamedCompletion = { content: '', toolCalls: [], interrupted: false };
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        ...this.toParams(request),
+        stream: true,
+        // Usage arrives in a final chunk without choices
+        stream_options: { include_usage: true }
+      }, { signal });
+
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          result.usage = this.toUsage(chunk.usage);
+        }
+
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          result.content += delta.content;
+          onToken?.(delta.content);
+        }
+
+        // Tool calls arrive in pieces keyed by index; names and arguments are concatenated
+        for (const part of delta.tool_calls || []) {
+          const call: ChatToolCall = result.toolCalls[part.index] ||
+            (result.toolCalls[part.index] = { id: '', name: '', arguments: '' });
+          call.id = part.id || call.id;
+          call.name += part.function?.name || '';
+          call.arguments += part.function?.arguments || '';
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
+      }
+      result.interrupted = true;
+      result.toolCalls = [];
+    }
+
+    result.toolCalls = result.toolCalls.filter(Boolean);
+    return result;
+  }
+
+  async testConnection(complete = (request: LLMRequest) => this.complete(request)): Promise<boolean> {
+    try {
+      const reply = await complete({
+        messages: [{ role: 'user', content: 'Hello, can you respond with just "AI connection working"?' }],
+        maxTokens: 50
+      });
+      const response = reply.content.toLowerCase();
+      return response.includes('working') || response.includes('connection');
+    } catch (error) {
+      console.error('AI connection test failed:', error.message);
+      return false;
+    }
+  }
+
+  private toUsage(usage?: OpenAI.CompletionUsage): LLMUsage | undefined {
+    return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+  }
+
+  // Request body shared by complete and stream
+  protected toParams(request: LLMRequest): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: this.settings.model,
+      messages: request.messages.map(message => this.toOpenAIMessage(message)),
+      tools: request.tools && request.tools.length > 0
+        ? request.tools.map(tool => ({
+            type: 'function' as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters as Record<string, unknown> }
+          }))
+        : undefined,
+      response_format: request.responseSchema
+        ? {
+            type: 'json_schema',
+            json_schema: { name: request.responseSchema.name, strict: true, schema: request.responseSchema.schema as Record<string, unknown> }
+          }
+        : undefined,
+      temperature: request.temperature ?? this.settings.temperature,
+      max_tokens: request.maxTokens ?? this.settings.maxTokens
+    };
+  }
+
+  protected toOpenAIMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      };
+    }
+    return { role: message.role, content: message.content };
+  }
+}
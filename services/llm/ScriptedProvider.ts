@@ -0,0 +1,97 @@
+import fs from 'fs';
+import { LLMCompletion, LLMRequest, LLMSettings, ResponseStreamOptions, ScriptedReply, StreamedCompletion } from '../../types/types';
+import { LLMProvider } from './LLMProvider';
+
+// Channel for requests without a purpose or response schema (chat replies)
+const CHAT_CHANNEL = 'chat';
+
+const DEFAULT_SETTINGS: LLMSettings = { model: 'scripted', temperature: 0, maxTokens: 500 };
+
+// Deterministic provider that plays back canned replies, for tests and offline demos.
+// Replies are queued per channel: the request purpose or schema name (e.g. "chat_intent",
+// "jira_issue_fields", "conversation_summary"), otherwise "chat". A plain array is the "chat" queue.
+export class ScriptedProvider implements LLMProvider {
+  readonly settings: LLMSettings;
+  // Every request received, in order
+  readonly requests: LLMRequest[] = [];
+  private queues: Map<string, ScriptedReply[]> = new Map();
+  private callCount = 0;
+
+  constructor(script: ScriptedReply[] | Record<string, ScriptedReply[]>, settings: LLMSettings = DEFAULT_SETTINGS) {
+    this.settings = settings;
+
+    const channels = Array.isArray(script) ? { [CHAT_CHANNEL]: script } : script;
+    Object.entries(channels).forEach(([channel, replies]) => this.queues.set(channel, [...replies]));
+  }
+
+  // Load a script from a JSON file holding either form accepted by the constructor
+  static fromFile(filePath: string, settings?: LLMSettings): ScriptedProvider {
+    let script: any;
+    try {
+      script = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read LLM script ${filePath}: ${error.message}`);
+    }
+    return new ScriptedProvider(script, settings);
+  }
+
+  get description(): string {
+    return 'scripted replies';
+  }
+
+  // Replies not yet played, per channel
+  remaining(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    this.queues.forEach((replies, channel) => counts[channel] = replies.length);
+    return counts;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    return this.toCompletion(this.nextReply(request));
+  }
+
+  // Emits the reply word by word so streaming consumers behave as they would live
+  async stream(request: LLMRequest, { onToken, signal }: ResponseStreamOptions = {}): Promise<StreamedCompletion> {
+    const completion = await this.complete(request);
+    let content = '';
+
+    for (const token of completion.content.match(/\S+\s*|\s+/g) || []) {
+      if (signal?.aborted) {
+        return { content, toolCalls: [], interrupted: true };
+      }
+      content += token;
+      onToken?.(token);
+    }
+
+    return { ...completion, interrupted: false };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  private nextReply(request: LLMRequest): ScriptedReply {
+    const channel = request.purpose || request.responseSchema?.name || CHAT_CHANNEL;
+    const queue = this.queues.get(channel);
+    if (!queue || queue.length === 0) {
+      throw new Error(`Scripted LLM has no "${channel}" reply left (request ${this.requests.length})`);
+    }
+    return queue.shift();
+  }
+
+  private toCompletion(reply: ScriptedReply): LLMCompletion {
+    if (typeof reply === 'string') {
+      return { content: reply, toolCalls: [] };
+    }
+
+    return {
+      content: reply.json !== undefined ? JSON.stringify(reply.json) : reply.content || '',
+      toolCalls: (reply.toolCalls || []).map(call => ({
+        id: call.id || `call_${++this.callCount}`,
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments)
+      }))
+    };
+  }
+}
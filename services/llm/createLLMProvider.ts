@@ -0,0 +1,17 @@
+import { LLMConfig } from '../../types/types';
+import { LLMProvider } from './LLMProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { ScriptedProvider } from './ScriptedProvider';
+
+// Instantiate the provider described by the configuration
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(config.settings, config.apiKey, config.baseURL);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config.settings, config.baseURL, config.apiKey);
+    case 'scripted':
+      return ScriptedProvider.fromFile(config.scriptPath, config.settings);
+  }
+}
@@ -0,0 +1,258 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { MCPNotification, MCPRequest, MCPResponse } from '../../types/types';
+import { SSEParser, SSEEvent } from '../SSEParser';
+import { MCPIncomingMessageHandler, MCPSessionExpiredError, MCPTransport, MCPTransportError } from './MCPTransport';
+import { parseRetryAfter } from '../RetryPolicy';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Streamable HTTP transport: JSON-RPC over POST, answered with JSON or an SSE stream
+export class HttpTransport implements MCPTransport {
+  private baseUrl: string;
+  private httpClient: AxiosInstance;
+  private messageHandler: MCPIncomingMessageHandler = () => {};
+  private protocolVersion: string | null = null;
+  private currentSessionId: string | null = null;
+  private timeoutMs: number;
+
+  // timeoutMs bounds the wait for the response headers and every later gap in the response body
+  constructor(baseUrl: string, apiKey?: string, timeoutMs: number = DEFAULT_TIMEOUT_MS) {
+    this.baseUrl = baseUrl;
+    this.timeoutMs = timeoutMs;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      'User-Agent': 'Jira-AI-Agent/1.0.0'
+    };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    this.httpClient = axios.create({
+      timeout: timeoutMs,
+      responseType: 'stream',
+      headers
+    });
+  }
+
+  get description(): string {
+    // Zapier embeds credentials in the URL path, so only show the host
+    try {
+      return `http ${new URL(this.baseUrl).host}`;
+    } catch {
+      return 'http';
+    }
+  }
+
+  get sessionId(): string | null {
+    return this.currentSessionId;
+  }
+
+  setMessageHandler(handler: MCPIncomingMessageHandler): void {
+    this.messageHandler = handler;
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  resetSession(): void {
+    this.currentSessionId = null;
+    this.protocolVersion = null;
+  }
+
+  async request(request: MCPRequest): Promise<MCPResponse> {
+    const response = await this.post(request);
+
+    // The initialize response assigns the session id
+    if (request.method === 'initialize') {
+      this.currentSessionId = response.headers['mcp-session-id'] || null;
+    }
+
+    return this.readResponse(response, request.id);
+  }
+
+  async send(message: MCPNotification | MCPResponse): Promise<void> {
+    const response = await this.post(message);
+    response.data.resume();
+  }
+
+  // Terminate the session on the server (best effort)
+  async close(): Promise<void> {
+    const sessionId = this.currentSessionId;
+    this.resetSession();
+
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      const response = await this.httpClient.delete(this.baseUrl, {
+        headers: { 'Mcp-Session-Id': sessionId }
+      });
+      response.data.resume();
+    } catch {
+      // Servers may not allow client-initiated termination
+    }
+  }
+
+  private async post(body: MCPRequest | MCPNotification | MCPResponse): Promise<AxiosResponse> {
+    const headers: Record<string, string> = {};
+    if (this.currentSessionId) {
+      headers['Mcp-Session-Id'] = this.currentSessionId;
+    }
+    if (this.protocolVersion) {
+      headers['Mcp-Protocol-Version'] = this.protocolVersion;
+    }
+
+    try {
+      // Post to the full URL (it already includes /mcp)
+      return await this.httpClient.post(this.baseUrl, body, { headers });
+    } catch (error) {
+      // A 404 for a request carrying a session id means the server expired it
+      if (this.currentSessionId && error.response?.status === 404) {
+        error.response.data?.resume?.();
+        this.resetSession();
+        throw new MCPSessionExpiredError();
+      }
+      throw this.toHttpError(error);
+    }
+  }
+
+  // The server may answer with a single JSON body or an SSE stream
+  private async readResponse(response: AxiosResponse, requestId: string): Promise<MCPResponse> {
+    const contentType = String(response.headers['content-type'] || '');
+
+    if (contentType.includes('text/event-stream')) {
+      return this.readEventStream(response.data, requestId);
+    }
+
+    const body = await this.readBody(response.data);
+    const message = JSON.parse(body);
+    const messages: any[] = Array.isArray(message) ? message : [message];
+
+    const match = messages.find(candidate => candidate.id === requestId);
+    if (!match) {
+      throw new Error(`MCP Error: No response for request ${requestId}`);
+    }
+    return match;
+  }
+
+  private readBody(stream: Readable): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      const stopTimer = this.watchForStall(stream, reject);
+      stream.setEncoding('utf8');
+      stream.on('data', chunk => body += chunk);
+      stream.on('end', () => {
+        stopTimer();
+        resolve(body);
+      });
+      stream.on('error', error => {
+        stopTimer();
+        reject(new MCPTransportError(`MCP Network Error: ${error.message}`));
+      });
+    });
+  }
+
+  // The axios timeout ends once the headers arrive, so a body that stops coming would be waited on
+  // forever. Each chunk restarts the clock: long tool calls keep streams alive with progress or
+  // keep-alive comments. Returns the function that stops watching.
+  private watchForStall(stream: Readable, reject: (error: Error) => void): () => void {
+    let timer: NodeJS.Timeout;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        stream.off('data', restart);
+        stream.destroy();
+        reject(new MCPTransportError(`MCP Network Error: No data received for ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+    };
+
+    restart();
+    stream.on('data', restart);
+    return () => {
+      clearTimeout(timer);
+      stream.off('data', restart);
+    };
+  }
+
+  // Consume SSE frames until the response for requestId arrives, forwarding anything else
+  private readEventStream(stream: Readable, requestId: string): Promise<MCPResponse> {
+    return new Promise((resolve, reject) => {
+      const parser = new SSEParser();
+      let settled = false;
+      const stopTimer = this.watchForStall(stream, error => {
+        settled = true;
+        reject(error);
+      });
+
+      const handleEvents = (events: SSEEvent[]) => {
+        for (const event of events) {
+          if (settled || event.event !== 'message' || !event.data) continue;
+
+          let payload: any;
+          try {
+            payload = JSON.parse(event.data);
+          } catch {
+            console.warn('Ignoring malformed MCP event:', event.data);
+            continue;
+          }
+
+          const messages: any[] = Array.isArray(payload) ? payload : [payload];
+          for (const message of messages) {
+            if (message.method) {
+              this.messageHandler(message);
+            } else if (message.id === requestId) {
+              settled = true;
+              stopTimer();
+              resolve(message);
+              stream.destroy();
+              return;
+            }
+          }
+        }
+      };
+
+      stream.setEncoding('utf8');
+      stream.on('data', chunk => handleEvents(parser.push(chunk)));
+      stream.on('end', () => {
+        stopTimer();
+        handleEvents(parser.flush());
+        if (!settled) {
+          reject(new MCPTransportError(`MCP Error: Stream closed before response to request ${requestId}`));
+        }
+      });
+      stream.on('error', error => {
+        stopTimer();
+        if (!settled) reject(new MCPTransportError(`MCP Network Error: ${error.message}`));
+      });
+    });
+  }
+
+  // Normalize axios failures into readable errors
+  private toHttpError(error: any): Error {
+    if (error.response) {
+      // Log more details for debugging (streamed bodies are not buffered)
+      console.error('MCP Response Error Details:', {
+        status: error.response.status,
+        statusText: error.response.statusText,
+        headers: error.response.headers
+      });
+      error.response.data?.resume?.();
+
+      const status = error.response.status;
+      return new MCPTransportError(`MCP HTTP Error: ${status} - ${error.response.statusText}`, {
+        status,
+        retryAfterMs: parseRetryAfter(error.response.headers?.['retry-after']),
+        // Rate limiting and unavailability mean the request was turned away unprocessed
+        outcomeUnknown: status >= 500 && status !== 503
+      });
+    } else if (error.request) {
+      return new MCPTransportError('MCP Network Error: No response received', { outcomeUnknown: true });
+    }
+    return error;
+  }
+}
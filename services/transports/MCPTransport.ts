@@ -0,0 +1,54 @@
+import { MCPNotification, MCPRequest, MCPResponse } from '../../types/types';
+
+// Messages the server sends on its own: notifications and server-to-client requests
+export type MCPIncomingMessageHandler = (message: MCPNotification | MCPRequest) => void;
+
+// A channel that carries JSON-RPC messages between MCPClient and one MCP server
+export interface MCPTransport {
+  // Short label for status output, e.g. "http https://mcp.zapier.com/..."
+  readonly description: string;
+
+  // Session id assigned by the server, if the transport has one
+  readonly sessionId: string | null;
+
+  // Send a request and resolve with the response carrying the same id
+  request(request: MCPRequest): Promise<MCPResponse>;
+
+  // Send a message that expects no reply (notifications and responses to server requests)
+  send(message: MCPNotification | MCPResponse): Promise<void>;
+
+  // Receive notifications and requests initiated by the server
+  setMessageHandler(handler: MCPIncomingMessageHandler): void;
+
+  // Called once the protocol version has been negotiated
+  setProtocolVersion?(version: string): void;
+
+  // Forget any server-side session so the next request starts a new one
+  resetSession(): void;
+
+  close(): Promise<void>;
+}
+
+// Raised when the server no longer recognizes the transport's session
+export class MCPSessionExpiredError extends Error {
+  constructor() {
+    super('MCP Error: Session expired');
+    this.name = 'MCPSessionExpiredError';
+  }
+}
+
+// Raised for failures below the JSON-RPC layer; carries what retry logic needs to know
+export class MCPTransportError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  // True when the server may have processed the request before the failure was seen
+  readonly outcomeUnknown: boolean;
+
+  constructor(message: string, details: { status?: number; retryAfterMs?: number; outcomeUnknown?: boolean } = {}) {
+    super(message);
+    this.name = 'MCPTransportError';
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.outcomeUnknown = details.outcomeUnknown ?? true;
+  }
+}
@@ -0,0 +1,172 @@
+import { ChildProcess, spawn } from 'child_process';
+import readline from 'readline';
+import { MCPNotification, MCPRequest, MCPResponse, MCPStdioConfig } from '../../types/types';
+import { MCPIncomingMessageHandler, MCPSessionExpiredError, MCPTransport, MCPTransportError } from './MCPTransport';
+
+interface PendingRequest {
+  resolve: (response: MCPResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// stdio transport: spawns a local MCP server and exchanges newline-delimited JSON-RPC
+export class StdioTransport implements MCPTransport {
+  private config: MCPStdioConfig;
+  private child: ChildProcess | null = null;
+  private pending: Map<string, PendingRequest> = new Map();
+  private messageHandler: MCPIncomingMessageHandler = () => {};
+  private stderrTail: string[] = [];
+  private requestTimeout: number;
+  private processLost: boolean = false;
+  readonly sessionId: string | null = null;
+
+  constructor(config: MCPStdioConfig, requestTimeout: number = 30000) {
+    this.config = config;
+    this.requestTimeout = requestTimeout;
+  }
+
+  get description(): string {
+    return `stdio ${[this.config.command, ...this.config.args].join(' ')}`;
+  }
+
+  setMessageHandler(handler: MCPIncomingMessageHandler): void {
+    this.messageHandler = handler;
+  }
+
+  // The process is the session; restarting it happens on the next request
+  resetSession(): void {
+    this.stop();
+    this.processLost = false;
+  }
+
+  request(request: MCPRequest): Promise<MCPResponse> {
+    return new Promise((resolve, reject) => {
+      // A restarted server has to be initialized again before it accepts requests
+      if (this.processLost && request.method !== 'initialize') {
+        this.processLost = false;
+        reject(new MCPSessionExpiredError());
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.pending.delete(request.id);
+        reject(new MCPTransportError(`MCP Error: Request ${request.method} timed out after ${this.requestTimeout}ms`));
+      }, this.requestTimeout);
+
+      this.pending.set(request.id, { resolve, reject, timer });
+
+      try {
+        this.write(request);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(request.id);
+        reject(error);
+      }
+    });
+  }
+
+  async send(message: MCPNotification | MCPResponse): Promise<void> {
+    this.write(message);
+  }
+
+  async close(): Promise<void> {
+    this.stop();
+  }
+
+  private write(message: MCPRequest | MCPNotification | MCPResponse): void {
+    const child = this.ensureProcess();
+    // Messages must not contain embedded newlines; JSON.stringify never emits them
+    child.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  // Spawn the server lazily so a missing command only fails when first used
+  private ensureProcess(): ChildProcess {
+    if (this.child) {
+      return this.child;
+    }
+
+    const child = spawn(this.config.command, this.config.args, {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    readline.createInterface({ input: child.stdout }).on('line', line => this.handleLine(line));
+
+    // Keep recent stderr output to explain crashes without cluttering the UI
+    readline.createInterface({ input: child.stderr }).on('line', line => {
+      this.stderrTail.push(line);
+      if (this.stderrTail.length > 20) {
+        this.stderrTail.shift();
+      }
+    });
+
+    child.on('error', error => this.handleExit(child, `failed to start: ${error.message}`));
+    child.on('exit', (code, signal) => this.handleExit(child, `exited with ${signal || `code ${code}`}`));
+    child.stdin.on('error', () => {
+      // Reported through the exit handler
+    });
+
+    this.child = child;
+    return child;
+  }
+
+  private handleLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      // Servers sometimes log to stdout by mistake
+      console.warn('Ignoring non-JSON output from MCP server:', line);
+      return;
+    }
+
+    const messages: any[] = Array.isArray(message) ? message : [message];
+    messages.forEach(entry => {
+      if (entry.method) {
+        this.messageHandler(entry);
+        return;
+      }
+
+      const request = this.pending.get(String(entry.id));
+      if (request) {
+        clearTimeout(request.timer);
+        this.pending.delete(String(entry.id));
+        request.resolve(entry);
+      }
+    });
+  }
+
+  private handleExit(child: ChildProcess, reason: string): void {
+    // Ignore late events from a process that has already been replaced
+    if (this.child !== child) {
+      return;
+    }
+    this.child = null;
+    this.processLost = true;
+
+    const stderr = this.stderrTail.length > 0 ? `\n${this.stderrTail.join('\n')}` : '';
+    const error = new MCPTransportError(`MCP Error: Server process ${reason}${stderr}`);
+
+    this.pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  private stop(): void {
+    const child = this.child;
+    if (!child) {
+      return;
+    }
+
+    this.handleExit(child, 'was stopped');
+    child.stdin.end();
+    child.kill('SIGTERM');
+  }
+}
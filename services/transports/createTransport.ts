@@ -0,0 +1,14 @@
+import { MCPTransportConfig } from '../../types/types';
+import { HttpTransport } from './HttpTransport';
+import { MCPTransport } from './MCPTransport';
+import { StdioTransport } from './StdioTransport';
+
+// Instantiate the transport described by the configuration
+export function createTransport(config: MCPTransportConfig): MCPTransport {
+  switch (config.type) {
+    case 'stdio':
+      return new StdioTransport(config.stdio);
+    case 'http':
+      return new HttpTransport(config.url, config.apiKey);
+  }
+}
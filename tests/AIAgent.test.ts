@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatIntentArgs, ConversationState } from '../types/types';
+import { AIAgent } from '../services/AIAgent';
+import { MCPClient } from '../services/MCPClient';
+import { HttpTransport } from '../services/transports/HttpTransport';
+import { ScriptedProvider } from '../services/llm/ScriptedProvider';
+import { SEARCH_QUERY_FIELD } from '../services/OfflineAssistant';
+
+// The rule classifier needs neither Jira nor a model, so nothing here is ever contacted
+const agent = new AIAgent(new MCPClient(new HttpTransport('http://127.0.0.1:9/mcp')), new ScriptedProvider([]));
+
+const classify = (message: string, state?: ConversationState) => agent.classifyIntentByRules(message, state);
+const args = (message: string, state?: ConversationState): Partial<ChatIntentArgs> => {
+  const { issueKey, query, field, value, status, assignee, comment } = classify(message, state).args;
+  return Object.fromEntries(Object.entries({ issueKey, query, field, value, status, assignee, comment }).filter(([, arg]) => arg !== null));
+};
+
+const drafting: ConversationState = { isCreatingIssue: true, currentIssue: { project: 'WEB' }, pendingField: 'title', awaitingConfirmation: false };
+
+describe('AIAgent.classifyIntentByRules', () => {
+  describe('create', () => {
+    it('recognizes requests for a new issue', () => {
+      for (const message of ['Create a bug for the login page', 'I want to file a ticket', 'open a task for the release notes', 'log another bug']) {
+        assert.equal(classify(message).type, 'create', message);
+      }
+    });
+
+    it('keeps answers during a draft in the create flow', () => {
+      const intent = classify('It happens on Safari only', drafting);
+      assert.equal(intent.type, 'create');
+      assert.equal(intent.confidence, 0.4);
+    });
+
+    it('does not treat a message about an existing issue as a new one', () => {
+      assert.equal(classify('open the issue PROJ-12').type, 'view');
+      assert.equal(classify('raise priority of PROJ-12 bug').type, 'update');
+      assert.equal(classify('report on PROJ-12 issue status').type, 'view');
+      assert.deepEqual(args('raise PROJ-12 bug to critical'), { issueKey: 'PROJ-12', field: 'priority', value: 'Critical' });
+    });
+  });
+
+  describe('existing issues', () => {
+    it('reads or adds comments', () => {
+      assert.deepEqual(args('comments on PROJ-42'), { issueKey: 'PROJ-42' });
+      assert.equal(classify('comments on PROJ-42').type, 'comment');
+      assert.deepEqual(args('comment on PROJ-42: fixed in 2.3'), { issueKey: 'PROJ-42', comment: 'fixed in 2.3' });
+      assert.deepEqual(args('add a note to PROJ-42 saying "waiting on design"'), { issueKey: 'PROJ-42', comment: 'waiting on design' });
+    });
+
+    it('moves issues to a status, with an optional resolution', () => {
+      assert.equal(classify('move PROJ-42 to In Review').type, 'transition');
+      assert.deepEqual(args('move PROJ-42 to In Review'), { issueKey: 'PROJ-42', status: 'In Review' });
+      assert.deepEqual(args('close PROJ-42 as Done'), { issueKey: 'PROJ-42', status: 'close', value: 'Done' });
+    });
+
+    it('assigns issues', () => {
+      assert.equal(classify('assign PROJ-7 to dana').type, 'assign');
+      assert.deepEqual(args('assign PROJ-7 to dana'), { issueKey: 'PROJ-7', assignee: 'dana' });
+    });
+
+    it('opens an issue that is only named', () => {
+      assert.equal(classify('what about PROJ-3?').type, 'view');
+    });
+  });
+
+  describe('search and small talk', () => {
+    it('takes the search terms from the message', () => {
+      assert.equal(classify('search for login errors').type, 'search');
+      assert.deepEqual(args('search for login errors'), { query: 'login errors' });
+    });
+
+    it('uses the whole message as terms after being asked for them', () => {
+      const state: ConversationState = { isCreatingIssue: false, currentIssue: {}, pendingField: SEARCH_QUERY_FIELD, awaitingConfirmation: false };
+      assert.deepEqual(args('slow checkout', state), { query: 'slow checkout' });
+    });
+
+    it('falls back to small talk', () => {
+      assert.equal(classify('thanks, that helps!').type, 'small_talk');
+    });
+  });
+});
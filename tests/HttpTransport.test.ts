@@ -0,0 +1,298 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MCPNotification, MCPProgress, MCPRequest } from '../types/types';
+import { HttpTransport } from '../services/transports/HttpTransport';
+import { MCPSessionExpiredError, MCPTransportError } from '../services/transports/MCPTransport';
+import { MCPClient } from '../services/MCPClient';
+
+// A request as the stand-in server received it
+interface ReceivedRequest {
+  method: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+type Handler = (request: ReceivedRequest, response: http.ServerResponse) => void;
+
+// Servers started by the current test, closed after it
+const servers: http.Server[] = [];
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  })));
+});
+
+// Local stand-in for an MCP server; every test gets its own on a free port
+async function startServer(handler: Handler): Promise<{ url: string; requests: ReceivedRequest[] }> {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const request = { method: req.method, headers: req.headers, body: body ? JSON.parse(body) : null };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  servers.push(server);
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`, requests };
+}
+
+const request = (id: string, method: string, params: any = {}): MCPRequest => ({ jsonrpc: '2.0', id, method, params });
+const result = (id: string, value: any) => ({ jsonrpc: '2.0', id, result: value });
+const progress = (token: string, value: number): MCPNotification => ({
+  jsonrpc: '2.0',
+  method: 'notifications/progress',
+  params: { progressToken: token, progress: value, total: 2 }
+});
+
+function replyJSON(response: http.ServerResponse, body: any, headers: Record<string, string> = {}): void {
+  response.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+// One SSE frame per message, written separately so they arrive as the server produces them
+function replySSE(response: http.ServerResponse, messages: any[], lineEnd: string = '\n'): void {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  messages.forEach(message => response.write(`event: message${lineEnd}data: ${JSON.stringify(message)}${lineEnd}${lineEnd}`));
+  response.end();
+}
+
+// Minimal MCP server: sessions from initialize, tools/call answered over SSE with progress first.
+// expire() makes the server forget the current session, as servers do after a restart or timeout.
+function mcpServer() {
+  let sessions = 0;
+  let activeSession: string | null = null;
+
+  const handler: Handler = (request, response) => {
+    const sessionId = request.headers['mcp-session-id'];
+    if (request.body?.method !== 'initialize' && sessionId !== activeSession) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const message = request.body;
+    if (message.method === 'initialize') {
+      activeSession = `session-${++sessions}`;
+      replyJSON(response, result(message.id, { protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'stand-in', version: '1.0.0' } }),
+        { 'Mcp-Session-Id': activeSession });
+    } else if (message.id === undefined) {
+      response.writeHead(202).end();
+    } else if (message.method === 'tools/call') {
+      const token = message.params._meta?.progressToken;
+      replySSE(response, [
+        ...(token ? [progress(token, 1), progress(token, 2)] : []),
+        result(message.id, { content: [{ type: 'text', text: 'done' }] })
+      ], '\r\n');
+    } else {
+      replyJSON(response, result(message.id, { tools: [] }));
+    }
+  };
+
+  return { handler, expire: () => { activeSession = null; } };
+}
+
+describe('HttpTransport', () => {
+  describe('requests', () => {
+    it('posts JSON-RPC with headers that accept JSON and event streams', async () => {
+      const server = await startServer((req, res) => replyJSON(res, result(req.body.id, { ok: true })));
+      const transport = new HttpTransport(server.url, 'secret');
+
+      assert.deepEqual(await transport.request(request('1', 'ping')), result('1', { ok: true }));
+
+      const [received] = server.requests;
+      assert.equal(received.method, 'POST');
+      assert.equal(received.headers['content-type'], 'application/json');
+      assert.equal(received.headers['accept'], 'application/json, text/event-stream');
+      assert.equal(received.headers['authorization'], 'Bearer secret');
+      assert.deepEqual(received.body, request('1', 'ping'));
+    });
+
+    it('picks the response for the request out of a JSON batch', async () => {
+      const server = await startServer((req, res) => replyJSON(res, [result('other', 1), result(req.body.id, 2)]));
+      assert.deepEqual(await new HttpTransport(server.url).request(request('7', 'ping')), result('7', 2));
+    });
+
+    it('fails when a JSON answer has no response for the request', async () => {
+      const server = await startServer((_req, res) => replyJSON(res, result('other', 1)));
+      await assert.rejects(new HttpTransport(server.url).request(request('7', 'ping')), /No response for request 7/);
+    });
+  });
+
+  describe('event streams', () => {
+    it('reads the response from an SSE stream with CRLF line endings', async () => {
+      const server = await startServer((req, res) => replySSE(res, [result(req.body.id, { ok: true })], '\r\n'));
+      assert.deepEqual(await new HttpTransport(server.url).request(request('1', 'ping')), result('1', { ok: true }));
+    });
+
+    it('forwards notifications that arrive before the response', async () => {
+      const server = await startServer((req, res) => replySSE(res, [progress('1', 1), progress('1', 2), result(req.body.id, {})]));
+      const transport = new HttpTransport(server.url);
+      const received: string[] = [];
+      transport.setMessageHandler(message => received.push(`${message.method} ${message.params.progress}`));
+
+      assert.deepEqual(await transport.request(request('1', 'tools/call')), result('1', {}));
+      assert.deepEqual(received, ['notifications/progress 1', 'notifications/progress 2']);
+    });
+
+    it('passes requests from the server to the message handler and skips other responses', async () => {
+      const server = await startServer((req, res) => replySSE(res, [result('other', 1), request('s1', 'ping'), result(req.body.id, 2)]));
+      const transport = new HttpTransport(server.url);
+      const received: string[] = [];
+      transport.setMessageHandler(message => received.push(message.method));
+
+      assert.deepEqual(await transport.request(request('1', 'tools/call')), result('1', 2));
+      assert.deepEqual(received, ['ping']);
+    });
+
+    it('fails with a transport error when the stream ends without the response', async () => {
+      const server = await startServer((_req, res) => replySSE(res, [progress('1', 1)]));
+      await assert.rejects(new HttpTransport(server.url).request(request('1', 'tools/call')), (error: Error) => {
+        assert.ok(error instanceof MCPTransportError);
+        assert.match(error.message, /Stream closed before response to request 1/);
+        return true;
+      });
+    });
+
+    it('gives up on a stream that stalls after its headers', async () => {
+      const server = await startServer((_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify(progress('1', 1))}\n\n`);
+      });
+      const transport = new HttpTransport(server.url, undefined, 200);
+
+      await assert.rejects(transport.request(request('1', 'tools/call')), (error: Error) => {
+        assert.ok(error instanceof MCPTransportError);
+        // Either this deadline or the socket's idle timeout can end the wait first
+        assert.match(error.message, /^MCP Network Error: (No data received for 200ms|aborted)$/);
+        return true;
+      });
+    });
+
+    it('keeps waiting while keep-alive comments arrive', async () => {
+      const server = await startServer((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 50);
+        setTimeout(() => {
+          clearInterval(keepAlive);
+          res.end(`data: ${JSON.stringify(result(req.body.id, { ok: true }))}\n\n`);
+        }, 400);
+      });
+      const transport = new HttpTransport(server.url, undefined, 200);
+
+      assert.deepEqual(await transport.request(request('1', 'tools/call')), result('1', { ok: true }));
+    });
+
+    it('gives up on a JSON body that stalls', async () => {
+      const server = await startServer((_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.write('{"jsonrpc":');
+      });
+      await assert.rejects(new HttpTransport(server.url, undefined, 200).request(request('1', 'ping')), MCPTransportError);
+    });
+  });
+
+  describe('sessions', () => {
+    it('keeps the Mcp-Session-Id from initialize and sends it back with the protocol version', async () => {
+      const server = await startServer((req, res) => req.body.method === 'initialize'
+        ? replyJSON(res, result(req.body.id, {}), { 'Mcp-Session-Id': 'abc' })
+        : replyJSON(res, result(req.body.id, {})));
+      const transport = new HttpTransport(server.url);
+
+      await transport.request(request('1', 'initialize'));
+      transport.setProtocolVersion('2025-03-26');
+      await transport.request(request('2', 'tools/list'));
+
+      assert.equal(transport.sessionId, 'abc');
+      assert.equal(server.requests[0].headers['mcp-session-id'], undefined);
+      assert.equal(server.requests[1].headers['mcp-session-id'], 'abc');
+      assert.equal(server.requests[1].headers['mcp-protocol-version'], '2025-03-26');
+    });
+
+    it('reports a 404 for a request with a session as an expired session', async () => {
+      const server = await startServer((req, res) => req.body.method === 'initialize'
+        ? replyJSON(res, result(req.body.id, {}), { 'Mcp-Session-Id': 'abc' })
+        : res.writeHead(404).end());
+      const transport = new HttpTransport(server.url);
+
+      await transport.request(request('1', 'initialize'));
+      await assert.rejects(transport.request(request('2', 'tools/list')), MCPSessionExpiredError);
+      assert.equal(transport.sessionId, null);
+    });
+
+    it('ends the session with a DELETE when closed', async () => {
+      const server = await startServer((req, res) => req.method === 'DELETE'
+        ? res.writeHead(200).end()
+        : replyJSON(res, result(req.body.id, {}), { 'Mcp-Session-Id': 'abc' }));
+      const transport = new HttpTransport(server.url);
+
+      await transport.request(request('1', 'initialize'));
+      await transport.close();
+
+      assert.equal(server.requests[1].method, 'DELETE');
+      assert.equal(server.requests[1].headers['mcp-session-id'], 'abc');
+      assert.equal(transport.sessionId, null);
+    });
+  });
+
+  describe('HTTP errors', () => {
+    it('turns an error status into a transport error with the Retry-After delay', async (t) => {
+      t.mock.method(console, 'error', () => {});
+      const server = await startServer((_req, res) => res.writeHead(503, { 'Retry-After': '2' }).end());
+
+      await assert.rejects(new HttpTransport(server.url).request(request('1', 'ping')), (error: MCPTransportError) => {
+        assert.ok(error instanceof MCPTransportError);
+        assert.equal(error.status, 503);
+        assert.equal(error.retryAfterMs, 2000);
+        assert.equal(error.outcomeUnknown, false);
+        return true;
+      });
+    });
+
+    it('turns a refused connection into a transport error', async () => {
+      const server = await startServer(() => {});
+      servers.pop().close();
+      await assert.rejects(new HttpTransport(server.url).request(request('1', 'ping')), MCPTransportError);
+    });
+  });
+});
+
+describe('MCPClient over HttpTransport', () => {
+  it('passes progress notifications to the caller before the result', async () => {
+    const server = await startServer(mcpServer().handler);
+    const client = new MCPClient(new HttpTransport(server.url));
+    const updates: MCPProgress[] = [];
+
+    const value = await client.callMethod('tools/call', { name: 'slow_tool', arguments: {} }, { onProgress: update => updates.push(update) });
+
+    assert.deepEqual(value, { content: [{ type: 'text', text: 'done' }] });
+    assert.deepEqual(updates, [{ progress: 1, total: 2 }, { progress: 2, total: 2 }]);
+  });
+
+  it('starts a new session and repeats the request when the server has expired the session', async () => {
+    const stub = mcpServer();
+    const server = await startServer(stub.handler);
+    const client = new MCPClient(new HttpTransport(server.url));
+
+    await client.connect();
+    stub.expire();
+    await client.callMethod('tools/call', { name: 'create_thing', arguments: {} });
+
+    const calls = server.requests.map(req => `${req.body.method} ${req.headers['mcp-session-id'] || '-'}`);
+    assert.deepEqual(calls, [
+      'initialize -',
+      'notifications/initialized session-1',
+      'tools/call session-1',
+      'initialize -',
+      'notifications/initialized session-2',
+      'tools/call session-2'
+    ]);
+    assert.equal(client.getSession().sessionId, 'session-2');
+  });
+});
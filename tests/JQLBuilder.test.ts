@@ -0,0 +1,162 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JQLBuilder, quoteJQLText, quoteJQLValue } from '../services/JQLBuilder';
+
+describe('quoteJQLValue', () => {
+  it('wraps values in double quotes', () => {
+    assert.equal(quoteJQLValue('In Progress'), '"In Progress"');
+    assert.equal(quoteJQLValue(''), '""');
+  });
+
+  it('escapes double quotes and backslashes', () => {
+    assert.equal(quoteJQLValue('say "hi"'), '"say \\"hi\\""');
+    assert.equal(quoteJQLValue('C:\\temp'), '"C:\\\\temp"');
+  });
+
+  it('escapes a backslash before a quote so the quote cannot end the string', () => {
+    assert.equal(quoteJQLValue('a\\"b'), '"a\\\\\\"b"');
+    assert.equal(quoteJQLValue('trailing\\'), '"trailing\\\\"');
+  });
+
+  it('keeps JQL keywords and functions as plain strings', () => {
+    assert.equal(quoteJQLValue('EMPTY'), '"EMPTY"');
+    assert.equal(quoteJQLValue('currentUser()'), '"currentUser()"');
+    assert.equal(quoteJQLValue('a OR b'), '"a OR b"');
+  });
+});
+
+describe('quoteJQLText', () => {
+  it('drops the characters Lucene treats as syntax', () => {
+    assert.equal(quoteJQLText('crash (iOS) [beta] +login -sso'), '"crash iOS beta login sso"');
+    assert.equal(quoteJQLText('title:"fails" ~2 a*b? c\\d e/f'), '"title fails 2 a b c d e f"');
+  });
+
+  it('lowercases boolean operators so they are searched as words', () => {
+    assert.equal(quoteJQLText('cats AND dogs OR NOT birds'), '"cats and dogs or not birds"');
+    assert.equal(quoteJQLText('ANDROID ORDER'), '"ANDROID ORDER"');
+  });
+
+  it('collapses whitespace and trims', () => {
+    assert.equal(quoteJQLText('  slow \n\t checkout  '), '"slow checkout"');
+  });
+
+  it('returns an empty string when nothing searchable is left', () => {
+    assert.equal(quoteJQLText('***'), '""');
+    assert.equal(quoteJQLText(''), '""');
+  });
+});
+
+describe('JQLBuilder', () => {
+  describe('value clauses', () => {
+    it('uses = for one value and in for several', () => {
+      assert.equal(new JQLBuilder().project('WEB').build(), 'project = "WEB"');
+      assert.equal(new JQLBuilder().status(['To Do', 'In Progress']).build(), 'status in ("To Do", "In Progress")');
+    });
+
+    it('negates with != and not in', () => {
+      assert.equal(new JQLBuilder().excludeStatus('Done').build(), 'status != "Done"');
+      assert.equal(new JQLBuilder().excludeStatusCategory(['Done', 'To Do']).build(), 'statusCategory not in ("Done", "To Do")');
+    });
+
+    it('joins clauses with AND in the order they were added', () => {
+      const jql = new JQLBuilder().project('WEB').issueType('Bug').priority(['High', 'Highest']).labels('ui');
+      assert.equal(jql.build(), 'project = "WEB" AND issuetype = "Bug" AND priority in ("High", "Highest") AND labels = "ui"');
+    });
+
+    it('keeps an attempt to break out of the quotes inside the value', () => {
+      assert.equal(new JQLBuilder().project('WEB" OR project = "SECRET').build(), 'project = "WEB\\" OR project = \\"SECRET"');
+      assert.equal(new JQLBuilder().labels('x\\" OR labels != "y').build(), 'labels = "x\\\\\\" OR labels != \\"y"');
+    });
+
+    it('quotes reserved words given as values', () => {
+      assert.equal(new JQLBuilder().status(['EMPTY', 'null', 'AND']).build(), 'status in ("EMPTY", "null", "AND")');
+    });
+  });
+
+  describe('users', () => {
+    it('quotes account ids and names', () => {
+      assert.equal(new JQLBuilder().assignee('dana "the admin"').build(), 'assignee = "dana \\"the admin\\""');
+    });
+
+    it('maps null to EMPTY and currentUser to the function', () => {
+      assert.equal(new JQLBuilder().assignee(null).build(), 'assignee is EMPTY');
+      assert.equal(new JQLBuilder().reporter('currentUser').build(), 'reporter = currentUser()');
+      assert.equal(new JQLBuilder().reporter('currentUser()').build(), 'reporter = currentUser()');
+    });
+  });
+
+  describe('text search', () => {
+    it('searches text and summary with ~', () => {
+      assert.equal(new JQLBuilder().text('login "fails" on Safari').build(), 'text ~ "login fails on Safari"');
+      assert.equal(new JQLBuilder().summary('export OR import').build(), 'summary ~ "export or import"');
+    });
+
+    it('skips a search with nothing searchable in it', () => {
+      assert.equal(new JQLBuilder().text('').build(), '');
+      assert.equal(new JQLBuilder().summary('?!').isEmpty(), true);
+      assert.equal(new JQLBuilder().text(undefined).project('WEB').build(), 'project = "WEB"');
+    });
+  });
+
+  describe('empty filters', () => {
+    it('skips missing, empty and all-empty values', () => {
+      const jql = new JQLBuilder().project(undefined).status('').priority([]).issueType([null, '', undefined]);
+      assert.equal(jql.isEmpty(), true);
+      assert.equal(jql.build(), '');
+    });
+
+    it('drops empty values from a list', () => {
+      assert.equal(new JQLBuilder().project(['WEB', '', null]).build(), 'project = "WEB"');
+    });
+
+    it('builds only the ordering when there are no conditions', () => {
+      assert.equal(new JQLBuilder().orderBy('updated', 'DESC').build(), 'ORDER BY updated DESC');
+    });
+
+    it('ignores empty builders in groups and negations', () => {
+      assert.equal(new JQLBuilder().anyOf(new JQLBuilder(), new JQLBuilder()).build(), '');
+      assert.equal(new JQLBuilder().not(new JQLBuilder()).isEmpty(), true);
+      assert.equal(new JQLBuilder().anyOf(new JQLBuilder(), new JQLBuilder().project('WEB')).build(), '(project = "WEB")');
+    });
+  });
+
+  describe('grouping', () => {
+    it('parenthesizes every alternative', () => {
+      const jql = JQLBuilder.or(new JQLBuilder().project('WEB').status('Open'), new JQLBuilder().key('MOB-1'));
+      assert.equal(jql.build(), '((project = "WEB" AND status = "Open") OR (key = "MOB-1"))');
+    });
+
+    it('combines groups with other clauses', () => {
+      const jql = new JQLBuilder().project('WEB').allOf(new JQLBuilder().summary('login')).not(new JQLBuilder().status('Done'));
+      assert.equal(jql.build(), 'project = "WEB" AND (summary ~ "login") AND NOT (status = "Done")');
+    });
+  });
+
+  describe('ordering', () => {
+    it('appends ORDER BY with every sort field', () => {
+      const jql = new JQLBuilder().project('WEB').orderBy('priority', 'DESC').orderBy('created');
+      assert.equal(jql.build(), 'project = "WEB" ORDER BY priority DESC, created ASC');
+      assert.equal(String(jql), jql.build());
+    });
+
+    it('accepts custom fields and rejects anything else', () => {
+      assert.equal(new JQLBuilder().orderBy('cf[10010]').build(), 'ORDER BY cf[10010] ASC');
+      assert.throws(() => new JQLBuilder().orderBy('updated; DROP'), /Invalid JQL field name "updated; DROP"/);
+      assert.throws(() => new JQLBuilder().orderBy('created, summary'), /Invalid JQL field name/);
+      assert.throws(() => new JQLBuilder().orderBy(''), /Invalid JQL field name/);
+    });
+  });
+
+  describe('dates', () => {
+    it('accepts dates, date strings and relative offsets', () => {
+      assert.equal(new JQLBuilder().createdAfter(new Date('2024-03-05T10:00:00Z')).build(), 'created >= "2024-03-05"');
+      assert.equal(new JQLBuilder().updatedAfter('-7d').updatedBefore('2024/03/05 12:30').build(),
+        'updated >= "-7d" AND updated <= "2024/03/05 12:30"');
+    });
+
+    it('rejects anything else instead of passing it into the query', () => {
+      assert.throws(() => new JQLBuilder().createdBefore('yesterday" OR "1"="1'), /Unsupported date/);
+      assert.throws(() => new JQLBuilder().createdBefore(new Date('not a date')), /Invalid date/);
+    });
+  });
+});
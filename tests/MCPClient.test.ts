@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JiraIssue, MCPRequest, MCPResponse } from '../types/types';
+import { MCPClient } from '../services/MCPClient';
+import { isTransientError } from '../services/RetryPolicy';
+import { MCPTransportError } from '../services/transports/MCPTransport';
+import { FakeJiraServer } from '../evals/FakeJiraServer';
+
+const SEARCH_TOOL = 'jira_software_cloud_find_issues_by_jql';
+const CREATE_TOOL = 'jira_software_cloud_create_issue';
+const UPDATE_TOOL = 'jira_software_cloud_update_issue';
+
+// Fake Jira whose connection drops for calls to the tools in `unreachable`
+class DroppingJiraServer extends FakeJiraServer {
+  readonly unreachable = new Set<string>();
+
+  async request(request: MCPRequest): Promise<MCPResponse> {
+    if (request.method === 'tools/call' && this.unreachable.has(request.params?.name)) {
+      throw new MCPTransportError('MCP Network Error: No response received');
+    }
+    return super.request(request);
+  }
+}
+
+const issue: JiraIssue = { project: 'WEB', issueType: 'Bug', title: 'Checkout button does nothing', description: 'Nothing happens on click', priority: 'High' };
+
+const client = (server: FakeJiraServer) => new MCPClient(server, undefined, { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 });
+
+describe('MCPClient.createJiraIssue', () => {
+  it('keeps a dropped connection during the submission marker search transient', async () => {
+    const server = new DroppingJiraServer();
+    server.unreachable.add(SEARCH_TOOL);
+
+    await assert.rejects(client(server).createJiraIssue(issue, 'abc123', true), (error: Error) => {
+      assert.ok(error instanceof MCPTransportError);
+      assert.ok(isTransientError(error));
+      assert.equal(error.message, 'Failed to create Jira issue: Issue search failed: MCP Network Error: No response received');
+      return true;
+    });
+    assert.deepEqual(server.actionCalls().map(call => call.name), []);
+  });
+
+  it('creates the issue when the resubmitted marker is not found', async () => {
+    const server = new DroppingJiraServer();
+    const created = await client(server).createJiraIssue(issue, 'abc123', true);
+
+    assert.equal(created.key, 'WEB-1');
+    assert.deepEqual(server.actionCalls().map(call => call.name), [SEARCH_TOOL, CREATE_TOOL, UPDATE_TOOL]);
+  });
+
+  it('labels the create with the submission marker and removes it once the issue exists', async () => {
+    const server = new FakeJiraServer();
+    const mcpClient = client(server);
+    await mcpClient.createJiraIssue({ ...issue, labels: ['checkout'] }, 'abc123');
+
+    const [create, update] = server.actionCalls();
+    assert.deepEqual(create.arguments.labels, ['checkout', 'ai-agent-submission-abc123']);
+    assert.deepEqual(update.arguments.labels, ['checkout']);
+    assert.deepEqual((await mcpClient.getJiraIssue('WEB-1')).labels, ['checkout']);
+  });
+
+  it('removes the marker from an issue an earlier attempt created', async () => {
+    const server = new FakeJiraServer({
+      issues: [{ key: 'WEB-1', summary: issue.title, issueType: 'Bug', labels: ['ai-agent-submission-abc123'] }]
+    });
+    const mcpClient = client(server);
+
+    assert.equal((await mcpClient.createJiraIssue(issue, 'abc123', true)).key, 'WEB-1');
+    assert.deepEqual(server.actionCalls().map(call => call.name), [SEARCH_TOOL, UPDATE_TOOL]);
+    assert.deepEqual((await mcpClient.getJiraIssue('WEB-1')).labels, []);
+  });
+
+  it('still returns the created issue when the marker cannot be removed', async (t) => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    const server = new DroppingJiraServer();
+    server.unreachable.add(UPDATE_TOOL);
+
+    assert.equal((await client(server).createJiraIssue(issue, 'abc123')).key, 'WEB-1');
+    assert.match(warn.mock.calls[0].arguments[0], /Could not remove the ai-agent-submission-abc123 label from WEB-1/);
+  });
+});
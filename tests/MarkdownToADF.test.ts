@@ -0,0 +1,410 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ADFMark, ADFNode } from '../types/types';
+import { markdownToADF, parseInline } from '../services/MarkdownToADF';
+
+const text = (value: string, ...marks: (string | ADFMark)[]): ADFNode => ({
+  type: 'text',
+  text: value,
+  ...(marks.length > 0 ? { marks: marks.map(mark => typeof mark === 'string' ? { type: mark } : mark) } : {})
+});
+const link = (href: string): ADFMark => ({ type: 'link', attrs: { href } });
+const hardBreak: ADFNode = { type: 'hardBreak' };
+const paragraph = (...content: ADFNode[]): ADFNode => content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+const item = (...content: ADFNode[]): ADFNode => ({ type: 'listItem', content });
+const bullets = (...items: ADFNode[]): ADFNode => ({ type: 'bulletList', content: items });
+const cell = (type: 'tableHeader' | 'tableCell', ...content: ADFNode[]): ADFNode => ({ type, attrs: {}, content: [paragraph(...content)] });
+
+// Top-level blocks of the converted document
+const blocks = (markdown: string) => markdownToADF(markdown).content;
+
+describe('markdownToADF', () => {
+  describe('document', () => {
+    it('wraps the blocks in a version 1 doc', () => {
+      assert.deepEqual(markdownToADF('Hello'), { type: 'doc', version: 1, content: [paragraph(text('Hello'))] });
+    });
+
+    it('returns an empty document for empty or blank input', () => {
+      assert.deepEqual(blocks(''), []);
+      assert.deepEqual(blocks('  \n\n \t\n'), []);
+      assert.deepEqual(blocks(undefined), []);
+    });
+
+    it('accepts Windows and old Mac line endings', () => {
+      assert.deepEqual(blocks('one\r\ntwo\r\rthree'), [paragraph(text('one'), hardBreak, text('two')), paragraph(text('three'))]);
+    });
+  });
+
+  describe('paragraphs', () => {
+    it('separates paragraphs on blank lines', () => {
+      assert.deepEqual(blocks('First paragraph.\n\nSecond paragraph.'), [
+        paragraph(text('First paragraph.')),
+        paragraph(text('Second paragraph.'))
+      ]);
+    });
+
+    it('keeps single line breaks as hard breaks', () => {
+      assert.deepEqual(blocks('line one\nline two'), [paragraph(text('line one'), hardBreak, text('line two'))]);
+    });
+
+    it('drops indentation and trailing spaces around line breaks', () => {
+      assert.deepEqual(blocks('  indented  \n   continued'), [paragraph(text('indented'), hardBreak, text('continued'))]);
+    });
+
+    it('treats a backslash at the end of a line as a line break', () => {
+      assert.deepEqual(blocks('one\\\ntwo'), [paragraph(text('one'), hardBreak, text('two'))]);
+    });
+  });
+
+  describe('headings', () => {
+    it('converts ATX headings of every level', () => {
+      for (let level = 1; level <= 6; level++) {
+        assert.deepEqual(blocks(`${'#'.repeat(level)} Title`), [{ type: 'heading', attrs: { level }, content: [text('Title')] }]);
+      }
+    });
+
+    it('strips closing hashes but keeps hashes inside the text', () => {
+      assert.deepEqual(blocks('## Support for C# ##'), [{ type: 'heading', attrs: { level: 2 }, content: [text('Support for C#')] }]);
+    });
+
+    it('does not treat a hashtag or seven hashes as a heading', () => {
+      assert.deepEqual(blocks('#hashtag'), [paragraph(text('#hashtag'))]);
+      assert.deepEqual(blocks('####### seven'), [paragraph(text('####### seven'))]);
+    });
+
+    it('converts setext headings', () => {
+      assert.deepEqual(blocks('Title\n====\n\nSubtitle\n---'), [
+        { type: 'heading', attrs: { level: 1 }, content: [text('Title')] },
+        { type: 'heading', attrs: { level: 2 }, content: [text('Subtitle')] }
+      ]);
+    });
+
+    it('formats inline content in headings', () => {
+      assert.deepEqual(blocks('# The `login` page'), [
+        { type: 'heading', attrs: { level: 1 }, content: [text('The '), text('login', 'code'), text(' page')] }
+      ]);
+    });
+
+    it('ends a paragraph at a heading', () => {
+      assert.deepEqual(blocks('text\n# Heading'), [
+        paragraph(text('text')),
+        { type: 'heading', attrs: { level: 1 }, content: [text('Heading')] }
+      ]);
+    });
+  });
+
+  describe('rules and quotes', () => {
+    it('converts thematic breaks', () => {
+      assert.deepEqual(blocks('---'), [{ type: 'rule' }]);
+      assert.deepEqual(blocks('* * *'), [{ type: 'rule' }]);
+      assert.deepEqual(blocks('___'), [{ type: 'rule' }]);
+    });
+
+    it('converts block quotes, including lazy continuation lines', () => {
+      assert.deepEqual(blocks('> quoted\n> still quoted\nlazy\n\nafter'), [
+        { type: 'blockquote', content: [paragraph(text('quoted'), hardBreak, text('still quoted'), hardBreak, text('lazy'))] },
+        paragraph(text('after'))
+      ]);
+    });
+
+    it('keeps paragraphs and lists inside quotes', () => {
+      assert.deepEqual(blocks('> one\n>\n> - a\n> - b'), [
+        { type: 'blockquote', content: [paragraph(text('one')), bullets(item(paragraph(text('a'))), item(paragraph(text('b'))))] }
+      ]);
+    });
+
+    it('flattens headings and nested quotes, which ADF does not allow in quotes', () => {
+      assert.deepEqual(blocks('> # Title\n>\n> > inner'), [
+        { type: 'blockquote', content: [paragraph(text('Title')), paragraph(text('inner'))] }
+      ]);
+    });
+
+    it('flattens a table in a quote into one paragraph per row, keeping the cell formatting', () => {
+      assert.deepEqual(blocks('> | pattern | note |\n> |---|---|\n> | `a|b` | \\*literal\\* **bold** |'), [
+        { type: 'blockquote', content: [
+          paragraph(text('pattern'), text(' | '), text('note')),
+          paragraph(text('a|b', 'code'), text(' | '), text('*literal* '), text('bold', 'strong'))
+        ] }
+      ]);
+    });
+  });
+
+  describe('lists', () => {
+    it('converts bullet lists with any bullet character', () => {
+      for (const bullet of ['-', '*', '+']) {
+        assert.deepEqual(blocks(`${bullet} one\n${bullet} two`), [bullets(item(paragraph(text('one'))), item(paragraph(text('two'))))]);
+      }
+    });
+
+    it('converts numbered lists and keeps their start number', () => {
+      assert.deepEqual(blocks('1. one\n2. two'), [
+        { type: 'orderedList', content: [item(paragraph(text('one'))), item(paragraph(text('two')))] }
+      ]);
+      assert.deepEqual(blocks('3) three\n4) four'), [
+        { type: 'orderedList', attrs: { order: 3 }, content: [item(paragraph(text('three'))), item(paragraph(text('four')))] }
+      ]);
+    });
+
+    it('nests indented lists inside the item above', () => {
+      assert.deepEqual(blocks('- parent\n  - child\n    1. grandchild\n- sibling'), [
+        bullets(
+          item(
+            paragraph(text('parent')),
+            bullets(item(paragraph(text('child')), { type: 'orderedList', content: [item(paragraph(text('grandchild')))] }))
+          ),
+          item(paragraph(text('sibling')))
+        )
+      ]);
+    });
+
+    it('nests lists indented with tabs', () => {
+      assert.deepEqual(blocks('- parent\n\t- child'), [bullets(item(paragraph(text('parent')), bullets(item(paragraph(text('child'))))))]);
+    });
+
+    it('keeps a list together across blank lines between items', () => {
+      assert.deepEqual(blocks('- one\n\n- two'), [bullets(item(paragraph(text('one'))), item(paragraph(text('two'))))]);
+    });
+
+    it('keeps indented paragraphs after a blank line in the item', () => {
+      assert.deepEqual(blocks('1. step\n\n   more about the step\n2. next'), [
+        { type: 'orderedList', content: [item(paragraph(text('step')), paragraph(text('more about the step'))), item(paragraph(text('next')))] }
+      ]);
+    });
+
+    it('continues an item on unindented lines until a blank line', () => {
+      assert.deepEqual(blocks('- a long item\nthat wraps\n\nnew paragraph'), [
+        bullets(item(paragraph(text('a long item'), hardBreak, text('that wraps')))),
+        paragraph(text('new paragraph'))
+      ]);
+    });
+
+    it('starts a new list when the list type changes', () => {
+      assert.deepEqual(blocks('- bullet\n1. number'), [
+        bullets(item(paragraph(text('bullet')))),
+        { type: 'orderedList', content: [item(paragraph(text('number')))] }
+      ]);
+    });
+
+    it('allows code blocks inside items', () => {
+      assert.deepEqual(blocks('- run:\n  ```sh\n  npm test\n  ```'), [
+        bullets(item(paragraph(text('run:')), { type: 'codeBlock', attrs: { language: 'sh' }, content: [text('npm test')] }))
+      ]);
+    });
+
+    it('flattens a table in an item without reading escaped characters as formatting', () => {
+      assert.deepEqual(blocks('- results:\n\n  | case | result |\n  |---|---|\n  | \\*star\\* | ok |'), [
+        bullets(item(
+          paragraph(text('results:')),
+          paragraph(text('case'), text(' | '), text('result')),
+          paragraph(text('*star*'), text(' | '), text('ok'))
+        ))
+      ]);
+    });
+
+    it('gives empty items an empty paragraph', () => {
+      assert.deepEqual(blocks('-\n- two'), [bullets(item(paragraph()), item(paragraph(text('two'))))]);
+    });
+
+    it('does not take emphasis or a number in a sentence for a list', () => {
+      assert.deepEqual(blocks('**bold** start'), [paragraph(text('bold', 'strong'), text(' start'))]);
+      assert.deepEqual(blocks('-5 degrees'), [paragraph(text('-5 degrees'))]);
+    });
+  });
+
+  describe('code blocks', () => {
+    it('converts fenced code with a language, keeping the code as typed', () => {
+      assert.deepEqual(blocks('```typescript\nconst a = **1**;\n\n  indented();\n```'), [
+        { type: 'codeBlock', attrs: { language: 'typescript' }, content: [text('const a = **1**;\n\n  indented();')] }
+      ]);
+    });
+
+    it('accepts tilde fences and fences without a language', () => {
+      assert.deepEqual(blocks('~~~\nplain\n~~~'), [{ type: 'codeBlock', content: [text('plain')] }]);
+    });
+
+    it('only closes a fence with the same character and at least the same length', () => {
+      assert.deepEqual(blocks('````\n```\n~~~\n````'), [{ type: 'codeBlock', content: [text('```\n~~~')] }]);
+    });
+
+    it('runs an unclosed fence to the end of the text', () => {
+      assert.deepEqual(blocks('```\nunclosed\nstill code'), [{ type: 'codeBlock', content: [text('unclosed\nstill code')] }]);
+    });
+
+    it('leaves out the text node of an empty code block', () => {
+      assert.deepEqual(blocks('```js\n```'), [{ type: 'codeBlock', attrs: { language: 'js' } }]);
+    });
+
+    it('converts code indented by four spaces', () => {
+      assert.deepEqual(blocks('Example:\n\n    line 1\n\n      line 2\n\nAfter'), [
+        paragraph(text('Example:')),
+        { type: 'codeBlock', content: [text('line 1\n\n  line 2')] },
+        paragraph(text('After'))
+      ]);
+    });
+
+    it('does not start indented code in the middle of a paragraph', () => {
+      assert.deepEqual(blocks('text\n    more text'), [paragraph(text('text'), hardBreak, text('more text'))]);
+    });
+  });
+
+  describe('tables', () => {
+    it('converts a table with a header row', () => {
+      assert.deepEqual(blocks('| Browser | Result |\n|---|:---:|\n| Safari | **fails** |\n| Chrome | ok |'), [{
+        type: 'table',
+        attrs: { isNumberColumnEnabled: false, layout: 'default' },
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader', text('Browser')), cell('tableHeader', text('Result'))] },
+          { type: 'tableRow', content: [cell('tableCell', text('Safari')), cell('tableCell', text('fails', 'strong'))] },
+          { type: 'tableRow', content: [cell('tableCell', text('Chrome')), cell('tableCell', text('ok'))] }
+        ]
+      }]);
+    });
+
+    it('accepts tables without outer pipes', () => {
+      const [table] = blocks('a | b\n--|--\n1 | 2');
+      assert.equal(table.type, 'table');
+      assert.deepEqual(table.content[1].content.map(row => row.content[0].content[0].text), ['1', '2']);
+    });
+
+    it('pads short rows and cuts long ones to the header width', () => {
+      const [table] = blocks('| a | b |\n|---|---|\n| 1 |\n| 1 | 2 | 3 |');
+      assert.deepEqual(table.content.map(row => row.content.length), [2, 2, 2]);
+      assert.deepEqual(table.content[1].content[1], cell('tableCell'));
+    });
+
+    it('keeps escaped pipes and pipes inside code in the cell', () => {
+      const [table] = blocks('| expression |\n|---|\n| a \\| b |\n| `x || y` |');
+      assert.deepEqual(table.content[1].content[0].content[0].content, [text('a | b')]);
+      assert.deepEqual(table.content[2].content[0].content[0].content, [text('x || y', 'code')]);
+    });
+
+    it('ends the table at a blank line', () => {
+      assert.deepEqual(blocks('| a |\n|---|\n| 1 |\n\nafter').map(block => block.type), ['table', 'paragraph']);
+    });
+
+    it('needs the delimiter row to match the header', () => {
+      assert.deepEqual(blocks('a | b\n---').map(block => block.type), ['heading']);
+      assert.deepEqual(blocks('a | b | c\n--|--').map(block => block.type), ['paragraph']);
+    });
+  });
+
+  describe('inline formatting', () => {
+    it('converts bold, italic and strikethrough', () => {
+      assert.deepEqual(parseInline('**bold** __bold__ *em* _em_ ~~gone~~'), [
+        text('bold', 'strong'), text(' '), text('bold', 'strong'), text(' '), text('em', 'em'), text(' '), text('em', 'em'), text(' '), text('gone', 'strike')
+      ]);
+    });
+
+    it('combines nested marks', () => {
+      assert.deepEqual(parseInline('***both*** and **bold _and em_**'), [
+        text('both', 'strong', 'em'), text(' and '), text('bold ', 'strong'), text('and em', 'strong', 'em')
+      ]);
+    });
+
+    it('leaves unmatched or spaced-out delimiters as text', () => {
+      assert.deepEqual(parseInline('2 * 3 * 4'), [text('2 * 3 * 4')]);
+      assert.deepEqual(parseInline('**not closed'), [text('**not closed')]);
+      assert.deepEqual(parseInline('a ~ b ~ c'), [text('a ~ b ~ c')]);
+    });
+
+    it('does not emphasize underscores inside words', () => {
+      assert.deepEqual(parseInline('snake_case_name and _real_'), [text('snake_case_name and '), text('real', 'em')]);
+    });
+
+    it('converts code spans, which hold their content literally', () => {
+      assert.deepEqual(parseInline('run `npm *test*` now'), [text('run '), text('npm *test*', 'code'), text(' now')]);
+      assert.deepEqual(parseInline('``a ` b``'), [text('a ` b', 'code')]);
+      assert.deepEqual(parseInline('`` `tick` ``'), [text('`tick`', 'code')]);
+    });
+
+    it('keeps only the link mark next to code, as ADF requires', () => {
+      assert.deepEqual(parseInline('**see `code`**'), [text('see ', 'strong'), text('code', 'code')]);
+      assert.deepEqual(parseInline('[`api`](https://x.dev)'), [text('api', link('https://x.dev'), 'code')]);
+    });
+
+    it('leaves an unmatched backtick as text', () => {
+      assert.deepEqual(parseInline('it`s'), [text('it`s')]);
+    });
+
+    it('unescapes backslash escapes', () => {
+      assert.deepEqual(parseInline('\\*not em\\* \\# \\[x\\] C:\\path'), [text('*not em* # [x] C:\\path')]);
+    });
+  });
+
+  describe('links', () => {
+    it('converts inline links and drops their title', () => {
+      assert.deepEqual(parseInline('see [the docs](https://example.com/docs "Docs")'), [
+        text('see '), text('the docs', link('https://example.com/docs'))
+      ]);
+    });
+
+    it('formats link text', () => {
+      assert.deepEqual(parseInline('[**bold** link](https://a.b)'), [text('bold', link('https://a.b'), 'strong'), text(' link', link('https://a.b'))]);
+    });
+
+    it('allows parentheses and angle brackets in the destination', () => {
+      assert.deepEqual(parseInline('[wiki](https://en.wikipedia.org/wiki/Foo_(bar))'), [
+        text('wiki', link('https://en.wikipedia.org/wiki/Foo_(bar)'))
+      ]);
+      assert.deepEqual(parseInline('[file](<docs/my file.md>)'), [text('file', link('docs/my file.md'))]);
+    });
+
+    it('converts autolinks and bare URLs', () => {
+      assert.deepEqual(parseInline('<https://a.b/c> and <mailto:dev@a.b>'), [
+        text('https://a.b/c', link('https://a.b/c')), text(' and '), text('dev@a.b', link('mailto:dev@a.b'))
+      ]);
+      assert.deepEqual(parseInline('Status: https://status.example.com/x.'), [
+        text('Status: '), text('https://status.example.com/x', link('https://status.example.com/x')), text('.')
+      ]);
+    });
+
+    it('does not take a closing parenthesis around a bare URL into it', () => {
+      assert.deepEqual(parseInline('(see https://a.b/c)'), [text('(see '), text('https://a.b/c', link('https://a.b/c')), text(')')]);
+    });
+
+    it('turns images into links with their alt text', () => {
+      assert.deepEqual(parseInline('![screenshot](https://a.b/s.png)'), [text('screenshot', link('https://a.b/s.png'))]);
+    });
+
+    it('leaves brackets that are not links as text', () => {
+      assert.deepEqual(parseInline('[WIP] task [1]'), [text('[WIP] task [1]')]);
+    });
+
+    it('uses the address as text when the label is empty', () => {
+      assert.deepEqual(parseInline('[](https://a.b)'), [text('https://a.b', link('https://a.b'))]);
+    });
+  });
+
+  describe('a typical bug report', () => {
+    it('converts every part', () => {
+      const markdown = [
+        '## Steps to reproduce',
+        '1. Open `/login`',
+        '2. Choose **Okta**',
+        '',
+        'Expected: the dashboard.',
+        'Actual: an error page, see https://status.example.com',
+        '',
+        '```',
+        'HTTP 500 /sso/callback',
+        '```'
+      ].join('\n');
+
+      assert.deepEqual(blocks(markdown), [
+        { type: 'heading', attrs: { level: 2 }, content: [text('Steps to reproduce')] },
+        {
+          type: 'orderedList',
+          content: [
+            item(paragraph(text('Open '), text('/login', 'code'))),
+            item(paragraph(text('Choose '), text('Okta', 'strong')))
+          ]
+        },
+        paragraph(
+          text('Expected: the dashboard.'), hardBreak,
+          text('Actual: an error page, see '), text('https://status.example.com', link('https://status.example.com'))
+        ),
+        { type: 'codeBlock', content: [text('HTTP 500 /sso/callback')] }
+      ]);
+    });
+  });
+});
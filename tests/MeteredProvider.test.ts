@@ -0,0 +1,59 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LLMCompletion, LLMRequest } from '../types/types';
+import { LLMProvider } from '../services/llm/LLMProvider';
+import { MeteredProvider } from '../services/llm/MeteredProvider';
+import { SpendingCapError, UsageTracker } from '../services/UsageTracker';
+
+const directories: string[] = [];
+afterEach(() => directories.splice(0).forEach(directory => fs.rmSync(directory, { recursive: true, force: true })));
+
+// Tracker on a fresh usage file, with $1 per million tokens either way
+function tracker(dailyCapUsd: number | null = null): UsageTracker {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+  directories.push(directory);
+  return new UsageTracker(path.join(directory, 'usage.json'), { priced: { input: 1, output: 1 } }, dailyCapUsd);
+}
+
+// Provider whose connection test sends one probe, like the OpenAI providers do
+function probingProvider(): LLMProvider & { requests: LLMRequest[] } {
+  const requests: LLMRequest[] = [];
+  const complete = async (request: LLMRequest): Promise<LLMCompletion> => {
+    requests.push(request);
+    return { content: 'AI connection working', toolCalls: [], usage: { promptTokens: 20, completionTokens: 4 } };
+  };
+
+  return {
+    requests,
+    description: 'probing',
+    settings: { model: 'priced', temperature: 0, maxTokens: 50 },
+    complete,
+    stream: async request => ({ ...await complete(request), interrupted: false }),
+    testConnection: async (send = complete) => (await send({ messages: [{ role: 'user', content: 'ping' }] })).content.includes('working')
+  };
+}
+
+describe('MeteredProvider.testConnection', () => {
+  it('records the usage of the probe', async () => {
+    const usage = tracker();
+    const inner = probingProvider();
+
+    assert.equal(await new MeteredProvider(inner, usage).testConnection(), true);
+
+    assert.equal(inner.requests.length, 1);
+    assert.deepEqual(usage.getRecords().map(({ model, purpose, promptTokens, completionTokens }) => ({ model, purpose, promptTokens, completionTokens })),
+      [{ model: 'priced', purpose: 'connection_test', promptTokens: 20, completionTokens: 4 }]);
+  });
+
+  it('refuses to probe once the daily cap is reached', async () => {
+    const usage = tracker(0.5);
+    usage.record('priced', 'chat', { promptTokens: 500000, completionTokens: 0 });
+    const inner = probingProvider();
+
+    await assert.rejects(new MeteredProvider(inner, usage).testConnection(), SpendingCapError);
+    assert.equal(inner.requests.length, 0);
+  });
+});
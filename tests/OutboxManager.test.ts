@@ -0,0 +1,64 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JiraIssue, MCPRequest, MCPResponse } from '../types/types';
+import { MCPClient } from '../services/MCPClient';
+import { Outbox } from '../services/Outbox';
+import { MCPTransportError } from '../services/transports/MCPTransport';
+import { OutboxManager } from '../managers/OutboxManager';
+import { FakeJiraServer } from '../evals/FakeJiraServer';
+import { ScriptedUI } from '../evals/ScriptedUI';
+
+// Fake Jira whose connection drops for every tool call while `offline` is set
+class DroppingJiraServer extends FakeJiraServer {
+  offline = false;
+
+  async request(request: MCPRequest): Promise<MCPResponse> {
+    if (request.method === 'tools/call' && this.offline) {
+      throw new MCPTransportError('MCP Network Error: No response received');
+    }
+    return super.request(request);
+  }
+}
+
+const issue: JiraIssue = { project: 'WEB', issueType: 'Bug', title: 'Checkout button does nothing', description: 'Nothing happens on click', priority: 'High' };
+
+const cleanups: (() => void)[] = [];
+afterEach(() => cleanups.splice(0).forEach(cleanup => cleanup()));
+
+function setup() {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+  const server = new DroppingJiraServer();
+  const ui = new ScriptedUI([]);
+  const outbox = new Outbox(path.join(directory, 'outbox.json'));
+  const mcpClient = new MCPClient(server, undefined, { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 });
+  cleanups.push(() => {
+    ui.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+  return { server, ui, outbox, manager: new OutboxManager(outbox, mcpClient, ui) };
+}
+
+describe('OutboxManager.syncIfOnline', () => {
+  it('keeps an issue queued for automatic sync when the connection drops during resubmission', async () => {
+    const { server, ui, outbox, manager } = setup();
+    outbox.add('abc123', issue, 'MCP Network Error: No response received');
+
+    server.offline = true;
+    await manager.syncIfOnline(true);
+
+    const [entry] = outbox.list();
+    assert.equal(entry.rejected, false);
+    assert.equal(entry.attempts, 2);
+    assert.match(entry.lastError, /Issue search failed: MCP Network Error/);
+
+    server.offline = false;
+    await manager.syncIfOnline(true);
+
+    assert.equal(outbox.size(), 0);
+    assert.ok(ui.transcript.includes('Queued issue submitted: Checkout button does nothing WEB-1 https://eval.atlassian.net/browse/WEB-1'));
+    assert.equal(server.actionCalls().filter(call => call.name.endsWith('_create_issue')).length, 1);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSEParser } from '../services/SSEParser';
+
+// Events from feeding the chunks in order, then ending the stream
+const parse = (...chunks: string[]) => {
+  const parser = new SSEParser();
+  return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.flush()];
+};
+
+describe('SSEParser', () => {
+  describe('framing', () => {
+    it('dispatches an event at each blank line', () => {
+      assert.deepEqual(parse('event: message\ndata: {"id":1}\n\ndata: {"id":2}\n\n'), [
+        { event: 'message', data: '{"id":1}', id: undefined, retry: undefined },
+        { event: 'message', data: '{"id":2}', id: undefined, retry: undefined }
+      ]);
+    });
+
+    it('accepts CRLF and CR line endings', () => {
+      const expected = [{ event: 'message', data: 'one', id: undefined, retry: undefined }];
+      assert.deepEqual(parse('data: one\r\n\r\n'), expected);
+      assert.deepEqual(parse('data: one\r\r'), expected);
+    });
+
+    it('keeps a CRLF split across chunks as one line ending', () => {
+      assert.deepEqual(parse('data: one\r', '\n\r', '\ndata: two\r\n\r\n').map(event => event.data), ['one', 'two']);
+    });
+
+    it('joins events and lines split anywhere across chunks', () => {
+      const frame = 'event: message\r\ndata: {"jsonrpc":"2.0","id":"1","result":{}}\r\n\r\n';
+      const chunks = Array.from({ length: Math.ceil(frame.length / 3) }, (_, index) => frame.slice(index * 3, index * 3 + 3));
+      assert.deepEqual(parse(...chunks).map(event => event.data), ['{"jsonrpc":"2.0","id":"1","result":{}}']);
+    });
+
+    it('dispatches an unterminated last event when the stream ends', () => {
+      assert.deepEqual(parse('data: last').map(event => event.data), ['last']);
+    });
+  });
+
+  describe('fields', () => {
+    it('joins several data lines with newlines', () => {
+      assert.deepEqual(parse('data: first\ndata: second\n\n').map(event => event.data), ['first\nsecond']);
+    });
+
+    it('removes only one space after the colon', () => {
+      assert.deepEqual(parse('data:  indented\ndata:tight\n\n').map(event => event.data), [' indented\ntight']);
+    });
+
+    it('reads the event type, id and retry', () => {
+      assert.deepEqual(parse('event: ping\nid: 7\nretry: 3000\ndata: x\n\n'), [{ event: 'ping', data: 'x', id: '7', retry: 3000 }]);
+    });
+
+    it('keeps the last event id for later events', () => {
+      assert.deepEqual(parse('id: 7\ndata: a\n\ndata: b\n\n').map(event => event.id), ['7', '7']);
+    });
+
+    it('ignores a retry that is not a number', () => {
+      assert.equal(parse('retry: soon\ndata: x\n\n')[0].retry, undefined);
+    });
+
+    it('resets the event type after each event', () => {
+      assert.deepEqual(parse('event: ping\ndata: a\n\ndata: b\n\n').map(event => event.event), ['ping', 'message']);
+    });
+  });
+
+  describe('skipped input', () => {
+    it('ignores comment lines used as keep-alives', () => {
+      assert.deepEqual(parse(': keep-alive\n\ndata: x\n: another\n\n').map(event => event.data), ['x']);
+    });
+
+    it('does not dispatch events without data', () => {
+      assert.deepEqual(parse('event: ping\n\nid: 3\n\n'), []);
+    });
+
+    it('ignores unknown fields', () => {
+      assert.deepEqual(parse('foo: bar\ndata: x\n\n').map(event => event.data), ['x']);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JiraOperation, MCPTool } from '../types/types';
+import { ToolRegistry } from '../services/ToolRegistry';
+import { ToolResolutionError, ToolResolver } from '../services/ToolResolver';
+
+const registry = (...names: string[]) =>
+  new ToolRegistry(names.map((name): MCPTool => ({ name, inputSchema: { type: 'object', properties: {} } })));
+
+// Tools a Zapier MCP server lists for an account with most Jira Software Cloud actions enabled
+const ZAPIER_TOOLS = [
+  'jira_software_cloud_add_attachment_to_issue',
+  'jira_software_cloud_add_comment_to_issue',
+  'jira_software_cloud_add_watcher_to_issue',
+  'jira_software_cloud_create_issue',
+  'jira_software_cloud_create_subtask',
+  'jira_software_cloud_find_comments',
+  'jira_software_cloud_find_issue',
+  'jira_software_cloud_find_issues_by_jql',
+  'jira_software_cloud_find_projects',
+  'jira_software_cloud_find_user',
+  'jira_software_cloud_get_issue_types',
+  'jira_software_cloud_get_transitions',
+  'jira_software_cloud_list_priorities',
+  'jira_software_cloud_transition_issue',
+  'jira_software_cloud_update_issue',
+  'jira_software_cloud_update_issue_priority',
+  'slack_send_channel_message',
+  'add_tools',
+  'edit_tools'
+];
+
+const resolveAll = (names: string[]) => {
+  const tools = registry(...names);
+  const resolver = new ToolResolver();
+  return Object.fromEntries(resolver.operations().map(operation => [operation, resolver.explain(operation, tools).toolName]));
+};
+
+describe('ToolResolver', () => {
+  describe('default patterns', () => {
+    it('maps every operation to the matching Zapier tool', () => {
+      assert.deepEqual(resolveAll(ZAPIER_TOOLS), {
+        createIssue: 'jira_software_cloud_create_issue',
+        searchIssues: 'jira_software_cloud_find_issues_by_jql',
+        getIssue: 'jira_software_cloud_find_issue',
+        listProjects: 'jira_software_cloud_find_projects',
+        listIssueTypes: 'jira_software_cloud_get_issue_types',
+        listPriorities: 'jira_software_cloud_list_priorities',
+        addComment: 'jira_software_cloud_add_comment_to_issue',
+        updateIssue: 'jira_software_cloud_update_issue',
+        listTransitions: 'jira_software_cloud_get_transitions',
+        transitionIssue: 'jira_software_cloud_transition_issue',
+        listComments: 'jira_software_cloud_find_comments'
+      });
+    });
+
+    it('maps the short tool names other accounts get', () => {
+      const resolved = resolveAll(['jira_create_issue', 'jira_get_issue', 'jira_search_issues', 'jira_add_comment', 'jira_edit_issue']);
+      assert.equal(resolved.createIssue, 'jira_create_issue');
+      assert.equal(resolved.getIssue, 'jira_get_issue');
+      assert.equal(resolved.searchIssues, 'jira_search_issues');
+      assert.equal(resolved.addComment, 'jira_add_comment');
+      assert.equal(resolved.updateIssue, 'jira_edit_issue');
+    });
+
+    it('does not take a tool whose name only starts with the operation', () => {
+      const resolved = resolveAll(['jira_get_issue_types', 'jira_update_issue_priority', 'jira_create_issue_link', 'jira_find_issue_types']);
+      const unresolved: JiraOperation[] = ['getIssue', 'updateIssue', 'createIssue', 'searchIssues', 'listPriorities'];
+      unresolved.forEach(operation => assert.equal(resolved[operation], null, operation));
+      assert.equal(resolved.listIssueTypes, 'jira_get_issue_types');
+    });
+
+    it('falls back to a single-issue finder for search when there is no JQL tool', () => {
+      assert.equal(resolveAll(['jira_software_cloud_find_issue']).searchIssues, 'jira_software_cloud_find_issue');
+    });
+
+    it('prefers Jira tools, then the shortest name, among equal matches', () => {
+      const tools = registry('github_create_issue', 'jira_software_cloud_create_issue', 'jira_create_issue');
+      assert.equal(new ToolResolver().resolve('createIssue', tools), 'jira_create_issue');
+    });
+  });
+
+  describe('configured tools', () => {
+    it('uses a configured tool name over the patterns', () => {
+      const tools = registry(...ZAPIER_TOOLS);
+      const resolver = new ToolResolver({ getIssue: 'jira_software_cloud_find_issues_by_jql' });
+      assert.deepEqual(resolver.explain('getIssue', tools), {
+        operation: 'getIssue',
+        toolName: 'jira_software_cloud_find_issues_by_jql',
+        source: 'config'
+      });
+    });
+
+    it('treats a configured value in slashes as a pattern', () => {
+      const resolver = new ToolResolver({ listProjects: '/user$/' });
+      assert.equal(resolver.resolve('listProjects', registry(...ZAPIER_TOOLS)), 'jira_software_cloud_find_user');
+    });
+
+    it('explains a configured tool the server does not offer', () => {
+      const resolution = new ToolResolver({ createIssue: 'jira_new_issue' }).explain('createIssue', registry('jira_find_issue'));
+      assert.equal(resolution.toolName, null);
+      assert.match(resolution.problem, /Tool "jira_new_issue" configured for createIssue is not offered/);
+      assert.match(resolution.problem, /Available Jira tools: jira_find_issue/);
+    });
+
+    it('explains a configured pattern that matches nothing', () => {
+      const resolution = new ToolResolver({ createIssue: '/open_ticket/' }).explain('createIssue', registry('jira_find_issue'));
+      assert.equal(resolution.toolName, null);
+      assert.match(resolution.problem, /No MCP tool matches the pattern \/open_ticket\/ configured for createIssue/);
+    });
+  });
+
+  describe('missing tools', () => {
+    it('throws a ToolResolutionError naming the operation and the config to set', () => {
+      assert.throws(() => new ToolResolver().resolve('addComment', registry('jira_software_cloud_find_issue')), (error: ToolResolutionError) => {
+        assert.ok(error instanceof ToolResolutionError);
+        assert.equal(error.operation, 'addComment');
+        assert.match(error.message, /No MCP tool found for addComment/);
+        assert.match(error.message, /JIRA_TOOL_MAP='\{"addComment":"<tool name>"\}'/);
+        return true;
+      });
+    });
+
+    it('says when the server offers no Jira tools at all', () => {
+      assert.match(new ToolResolver().explain('createIssue', registry('slack_send_channel_message')).problem, /offers no Jira tools \(it has: slack_send_channel_message\)/);
+      assert.match(new ToolResolver().explain('createIssue', registry()).problem, /The server offers no tools\./);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SpendingCapError, UsageTracker } from '../services/UsageTracker';
+
+const PRICES = { priced: { input: 1, output: 2 } };
+
+const directories: string[] = [];
+afterEach(() => directories.splice(0).forEach(directory => fs.rmSync(directory, { recursive: true, force: true })));
+
+function usageFile(): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+  directories.push(directory);
+  return path.join(directory, 'usage.json');
+}
+
+describe('UsageTracker', () => {
+  it('totals the session and the day', () => {
+    const tracker = new UsageTracker(usageFile(), PRICES);
+    tracker.record('priced', 'chat', { promptTokens: 1000, completionTokens: 500 });
+    tracker.record('unknown', 'chat', { promptTokens: 10, completionTokens: 5 });
+
+    const report = tracker.report();
+    assert.deepEqual(report.session, { requests: 2, promptTokens: 1010, completionTokens: 505, costUsd: 0.002, unpricedRequests: 1 });
+    assert.deepEqual(report.today, report.session);
+    assert.deepEqual(Object.keys(report.sessionByModel), ['priced', 'unknown']);
+    assert.deepEqual(report.recentSessions, []);
+  });
+
+  it('keeps session totals on disk for later runs', () => {
+    const file = usageFile();
+    const earlier = new UsageTracker(file, PRICES);
+    earlier.record('priced', 'chat', { promptTokens: 1000, completionTokens: 500 });
+    earlier.record('priced', 'conversation_summary', { promptTokens: 200, completionTokens: 100 });
+
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    assert.deepEqual(Object.values(stored.sessions).map((session: any) => session.totals.requests), [2]);
+
+    const later = new UsageTracker(file, PRICES);
+    const report = later.report();
+
+    assert.equal(report.session.requests, 0);
+    assert.equal(report.recentSessions.length, 1);
+    const { costUsd, ...totals } = report.recentSessions[0].totals;
+    assert.deepEqual(totals, { requests: 2, promptTokens: 1200, completionTokens: 600, unpricedRequests: 0 });
+    assert.equal(costUsd.toFixed(6), '0.002400');
+    assert.ok(!isNaN(Date.parse(report.recentSessions[0].startedAt)));
+    assert.equal(report.today.requests, 2);
+  });
+
+  it('lists earlier sessions newest first, leaving out the current one', () => {
+    const file = usageFile();
+    fs.writeFileSync(file, JSON.stringify({
+      version: 1,
+      days: {},
+      sessions: {
+        a: { startedAt: '2024-05-01T08:00:00.000Z', totals: { requests: 1, promptTokens: 1, completionTokens: 1, costUsd: 0, unpricedRequests: 0 } },
+        b: { startedAt: '2024-05-02T08:00:00.000Z', totals: { requests: 2, promptTokens: 1, completionTokens: 1, costUsd: 0, unpricedRequests: 0 } }
+      }
+    }));
+
+    const tracker = new UsageTracker(file, PRICES);
+    tracker.record('priced', 'chat', { promptTokens: 1, completionTokens: 1 });
+
+    assert.deepEqual(tracker.report().recentSessions.map(session => session.totals.requests), [2, 1]);
+  });
+
+  it('blocks calls once the day reaches the cap, across restarts', () => {
+    const file = usageFile();
+    new UsageTracker(file, PRICES, 0.001).record('priced', 'chat', { promptTokens: 1000, completionTokens: 0 });
+
+    assert.throws(() => new UsageTracker(file, PRICES, 0.001).assertWithinCap(), SpendingCapError);
+    assert.doesNotThrow(() => new UsageTracker(file, PRICES, 0.01).assertWithinCap());
+  });
+});
@@ -6,18 +6,126 @@ export interface JiraIssue {
     title: string;
     description: string;
     priority: string;
+    labels?: string[];
   }
   
   export interface ChatMessage {
-    role: 'system' | 'user' | 'assistant';
+    role: 'system' | 'user' | 'assistant' | 'tool';
     content: string;
+    toolCalls?: ChatToolCall[];   // Assistant messages that requested tool calls
+    toolCallId?: string;          // Tool messages: the call they answer
+  }
+
+  export interface ChatToolCall {
+    id: string;
+    name: string;                 // MCP tool name
+    arguments: string;            // JSON-encoded arguments as produced by the model
+  }
+
+  export interface ToolCallRecord {
+    name: string;
+    arguments: Record<string, any>;
+    readOnly: boolean;
+    status: 'ok' | 'error' | 'declined';
+    result: string;
+  }
+
+  // Callbacks that let the chat UI show and approve tool calls made by the model
+  export interface ToolCallHooks {
+    onToolCall?(name: string, args: Record<string, any>, readOnly: boolean): void;
+    confirmToolCall?(name: string, args: Record<string, any>): Promise<boolean>;
+    onToolResult?(record: ToolCallRecord): void;
+  }
+
+  // Live output of a chat reply; aborting the signal stops generation and keeps the partial text
+  export interface ResponseStreamOptions {
+    onToken?(text: string): void;
+    signal?: AbortSignal;
+  }
+
+  // A function the model may call, in provider-neutral form
+  export interface LLMToolDefinition {
+    name: string;
+    description: string;
+    parameters: JSONSchema;
+  }
+
+  export interface LLMRequest {
+    messages: ChatMessage[];
+    tools?: LLMToolDefinition[];
+    // Constrain the reply to a JSON object matching this schema
+    responseSchema?: { name: string; schema: JSONSchema };
+    // What the request is for when it is not a chat reply (e.g. "conversation_summary");
+    // the schema name is used when unset
+    purpose?: string;
+    // Per-request overrides of the configured settings
+    temperature?: number;
+    maxTokens?: number;
+  }
+
+  export interface LLMCompletion {
+    content: string;
+    toolCalls: ChatToolCall[];
+    // Token counts reported by the server, when it reports them
+    usage?: LLMUsage;
+  }
+
+  export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+  }
+
+  export interface StreamedCompletion extends LLMCompletion {
+    interrupted: boolean;
   }
   
+  export type IssueField = 'project' | 'issueType' | 'title' | 'description' | 'priority' | 'labels';
+
   export interface ConversationState {
     isCreatingIssue: boolean;
     currentIssue: Partial<JiraIssue>;
     pendingField: string | null;
     awaitingConfirmation: boolean;
+    fieldConfidence?: Partial<Record<IssueField, number>>; // 0-1, from structured extraction
+  }
+
+  export type ChatIntentType =
+    | 'create'
+    | 'search'
+    | 'view'
+    | 'update'
+    | 'comment'
+    | 'transition'
+    | 'assign'
+    | 'link'
+    | 'summarize'
+    | 'small_talk';
+
+  // Arguments the classifier pulled out of the message; null when not mentioned
+  export interface ChatIntentArgs {
+    issueKey: string | null;        // e.g. PROJ-12
+    project: string | null;
+    query: string | null;           // Search terms
+    field: string | null;           // Field to update, e.g. priority
+    value: string | null;           // New value for that field
+    status: string | null;          // Target workflow status
+    assignee: string | null;
+    comment: string | null;
+    linkedIssueKey: string | null;
+    linkType: string | null;        // e.g. blocks, relates to, duplicates
+  }
+
+  export interface ChatIntent {
+    type: ChatIntentType;
+    confidence: number;
+    args: ChatIntentArgs;
+  }
+
+  export interface IssueExtraction {
+    issue: Partial<JiraIssue>;
+    confidence: Partial<Record<IssueField, number>>;
+    missing: IssueField[];     // Required fields with no value yet
+    uncertain: IssueField[];   // Fields whose value should be confirmed with the user
   }
   
   export interface MCPRequest {
@@ -53,4 +161,346 @@ export interface JiraIssue {
       status: { name: string };
       priority?: { name: string };
     };
-  }
\ No newline at end of file
+  }
+
+  export interface MCPContentBlock {
+    type: string; // 'text', 'image', 'audio', 'resource' or 'resource_link'
+    text?: string;
+    data?: string;
+    mimeType?: string;
+    resource?: {
+      uri: string;
+      mimeType?: string;
+      text?: string;
+    };
+  }
+
+  export interface MCPToolCallResult {
+    content: MCPContentBlock[];
+    structuredContent?: any;
+    isError?: boolean;
+  }
+
+  export interface MCPToolOutput {
+    text: string;
+    data: any;
+    content: MCPContentBlock[];
+  }
+
+  export interface MCPNotification {
+    jsonrpc: string;
+    method: string;
+    params?: any;
+  }
+
+  export interface MCPServerCapabilities {
+    tools?: { listChanged?: boolean };
+    resources?: { subscribe?: boolean; listChanged?: boolean };
+    prompts?: { listChanged?: boolean };
+    logging?: {};
+    completions?: {};
+    experimental?: Record<string, any>;
+  }
+
+  export interface MCPInitializeResult {
+    protocolVersion: string;
+    capabilities: MCPServerCapabilities;
+    serverInfo: {
+      name: string;
+      version: string;
+    };
+    instructions?: string;
+  }
+
+  export interface MCPProgress {
+    progress: number;
+    total?: number;
+    message?: string;
+  }
+
+  export interface MCPCallOptions {
+    onProgress?: (progress: MCPProgress) => void;
+    idempotent?: boolean; // Safe to retry automatically after a transient failure
+  }
+
+  export type MCPNotificationHandler = (notification: MCPNotification) => void;
+
+  export interface MCPStdioConfig {
+    command: string;
+    args: string[];
+    cwd?: string;
+    env?: Record<string, string>;
+  }
+
+  export type MCPTransportConfig =
+    | { type: 'http'; url: string; apiKey?: string }
+    | { type: 'stdio'; stdio: MCPStdioConfig };
+
+  export interface LLMSettings {
+    model: string;
+    temperature: number;
+    maxTokens: number;
+  }
+
+  // Estimated tokens per request, and how many of them recent turns may use before older ones are summarized
+  export interface ContextBudget {
+    maxTokens: number;
+    recentTokens: number;
+  }
+
+  export type LLMConfig =
+    | { provider: 'openai'; settings: LLMSettings; apiKey?: string; baseURL?: string }
+    | { provider: 'openai-compatible'; settings: LLMSettings; baseURL: string; apiKey?: string }
+    | { provider: 'scripted'; settings: LLMSettings; scriptPath: string };
+
+  // One canned model reply: plain text, a structured JSON value, or tool calls
+  export type ScriptedReply = string | {
+    content?: string;
+    json?: any;
+    toolCalls?: { id?: string; name: string; arguments: string | Record<string, any> }[];
+  };
+
+  export interface JSONSchema {
+    type?: string | string[];
+    description?: string;
+    properties?: Record<string, JSONSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JSONSchema;
+    items?: JSONSchema;
+    enum?: any[];
+    const?: any;
+    anyOf?: JSONSchema[];
+    oneOf?: JSONSchema[];
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+    pattern?: string;
+    format?: string;
+    default?: any;
+  }
+
+  export interface MCPTool {
+    name: string;
+    title?: string;
+    description?: string;
+    inputSchema: JSONSchema;
+    annotations?: {
+      title?: string;
+      readOnlyHint?: boolean;
+      destructiveHint?: boolean;
+      idempotentHint?: boolean;
+      openWorldHint?: boolean;
+    };
+  }
+
+  export type JiraOperation =
+    | 'createIssue'
+    | 'searchIssues'
+    | 'getIssue'
+    | 'listProjects'
+    | 'listIssueTypes'
+    | 'listPriorities'
+    | 'addComment'
+    | 'updateIssue'
+    | 'listTransitions'
+    | 'transitionIssue'
+    | 'listComments';
+
+  export interface ToolResolution {
+    operation: JiraOperation;
+    toolName: string | null;
+    source: 'config' | 'pattern' | null;
+    problem?: string;
+  }
+
+  export interface JiraSearchPage {
+    issues: JiraSearchResult[];
+    startAt: number;
+    maxResults: number;
+    total?: number;          // Not reported by token-paginated searches
+    nextPageToken?: string;
+    isLast: boolean;
+  }
+
+  export interface JiraSearchPageRequest {
+    startAt?: number;         // Position of the page's first issue; with a token it only numbers the results
+    maxResults?: number;
+    nextPageToken?: string;
+  }
+
+  export interface OutboxEntry {
+    id: string;             // Also the submission id used to detect duplicate creates
+    issue: JiraIssue;
+    queuedAt: string;
+    attempts: number;
+    lastAttemptAt?: string;
+    lastError?: string;
+    rejected?: boolean;     // Jira refused the last attempt; automatic sync skips it until it is edited
+  }
+
+  // A prompt file: front matter (version) plus a body with {{variable}} placeholders
+  export interface PromptTemplate {
+    name: string;
+    version: string;
+    source: string;
+    body: string;
+  }
+
+  export interface RenderedPrompt {
+    name: string;
+    version: string;
+    source: string;
+    text: string;
+  }
+
+  export type PromptVariables = Record<string, string>;
+
+  // USD per million tokens
+  export interface ModelPrice {
+    input: number;
+    output: number;
+  }
+
+  export interface UsageRecord {
+    at: string;
+    model: string;
+    purpose: string;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number | null;   // null when the model has no configured price
+    estimated: boolean;       // token counts estimated locally because the server sent none
+  }
+
+  export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    unpricedRequests: number;
+  }
+
+  export interface UsageReport {
+    session: UsageTotals;
+    sessionByModel: Record<string, UsageTotals>;
+    // Earlier runs of the app, newest first
+    recentSessions: { startedAt: string; totals: UsageTotals }[];
+    today: UsageTotals;
+    recentDays: { date: string; totals: UsageTotals }[];
+    dailyCapUsd: number | null;
+  }
+
+  // Fields of an existing issue that can be edited
+  export type EditableIssueField = 'summary' | 'description' | 'priority' | 'labels' | 'assignee';
+
+  // An existing issue as fetched for viewing or editing
+  export interface JiraIssueDetails {
+    key: string;
+    self: string;
+    issueType: string;
+    status: string;
+    summary: string;
+    description: string;      // Plain text
+    priority: string | null;
+    labels: string[];
+    assignee: string | null;  // Display name; null when unassigned
+  }
+
+  // Everything the issue view shows, beyond the editable fields
+  export interface JiraIssueView extends JiraIssueDetails {
+    reporter: string | null;
+    resolution: string | null;
+    created: string | null;       // ISO timestamps
+    updated: string | null;
+    parent: JiraIssueRef | null;  // Set on subtasks
+    links: JiraIssueLink[];
+    subtasks: JiraIssueRef[];
+    descriptionDocument: ADFNode | null;  // Description as ADF, for rendering
+  }
+
+  // Another issue mentioned by an issue (parent, subtask or link target)
+  export interface JiraIssueRef {
+    key: string;
+    summary: string;
+    status: string;
+  }
+
+  export interface JiraIssueLink extends JiraIssueRef {
+    relation: string;             // From this issue's side, e.g. "blocks", "is blocked by"
+  }
+
+  // New values for the fields that change; assignee null unassigns the issue
+  export type JiraIssueUpdate = Partial<Pick<JiraIssueDetails, EditableIssueField>>;
+
+  export interface IssueFieldChange {
+    field: EditableIssueField;
+    from: string | string[] | null;
+    to: string | string[] | null;
+  }
+
+  // A workflow transition available on an issue
+  export interface JiraTransition {
+    id: string;
+    name: string;               // e.g. "Start Progress"
+    toStatus: string;           // Status the issue moves to
+    requiresResolution: boolean;
+    requiresComment: boolean;
+    resolutions: string[];      // Allowed resolution values, if the transition screen offers them
+  }
+
+  // Values sent along with a transition
+  export interface TransitionFields {
+    resolution?: string;
+    comment?: string;
+  }
+
+  // Atlassian Document Format: the JSON rich text Jira uses for descriptions and comments
+  export interface ADFMark {
+    type: string;                 // e.g. strong, em, code, link
+    attrs?: Record<string, any>;
+  }
+
+  export interface ADFNode {
+    type: string;                 // e.g. paragraph, text, hardBreak, heading
+    attrs?: Record<string, any>;
+    content?: ADFNode[];
+    text?: string;
+    marks?: ADFMark[];
+  }
+
+  export interface ADFDocument extends ADFNode {
+    type: 'doc';
+    version: 1;
+    content: ADFNode[];
+  }
+
+  export interface JiraComment {
+    id: string;
+    author: string;               // Display name
+    created: string;              // ISO timestamp
+    updated?: string;
+    body: string;                 // Plain text
+  }
+
+  // What to do when an issue about to be created looks like an existing one
+  export type DuplicateDecision =
+    | { action: 'create' }
+    | { action: 'comment'; issueKey: string }   // Add the report to the existing issue instead
+    | { action: 'cancel' };
+
+  // One terminal line of rendered ADF; the style decides its color
+  export type RenderedLineStyle = 'text' | 'heading' | 'code' | 'quote' | 'table' | 'rule' | 'muted';
+
+  export interface RenderedLine {
+    text: string;
+    style: RenderedLineStyle;
+  }
+
+  // Where to go from a page of search results
+  export type SearchNavigation =
+    | { action: 'next' }
+    | { action: 'previous' }
+    | { action: 'quit' }
+    | { action: 'open'; number: number }; // Result number as listed, counting across pages
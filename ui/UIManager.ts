@@ -1,17 +1,36 @@
 import { terminal as term } from 'terminal-kit';
 import readline from 'readline';
-import { JiraIssue, JiraSearchResult } from '../types/types';
+import { IssueFieldChange, JiraComment, JiraIssue, JiraIssueDetails, JiraIssueRef, JiraIssueView, JiraSearchResult, JiraTransition, JiraSearchPage, OutboxEntry, RenderedLine, RenderedPrompt, SearchNavigation,
+  ToolCallRecord, UsageReport, UsageTotals } from '../types/types';
+import { renderADF } from '../services/ADF';
 
 export class UIManager {
   private rl: readline.Interface;
+  private interruptHandler: (() => void) | null = null;
 
-  constructor() {
-    this.rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout
+  constructor(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout) {
+    this.rl = readline.createInterface({ input, output });
+
+    // Ctrl+C cancels the current operation if one is listening, otherwise it shuts the app down
+    this.rl.on('SIGINT', () => {
+      if (this.interruptHandler) {
+        this.interruptHandler();
+      } else {
+        process.kill(process.pid, 'SIGINT');
+      }
     });
   }
 
+  // Route Ctrl+C to the handler until the returned function is called
+  onInterrupt(handler: () => void): () => void {
+    this.interruptHandler = handler;
+    return () => {
+      if (this.interruptHandler === handler) {
+        this.interruptHandler = null;
+      }
+    };
+  }
+
   // Welcome message with styling
   showWelcomeMessage(): void {
     term.clear();
@@ -23,31 +42,47 @@ export class UIManager {
   }
 
   // Main menu display
-  showMainMenu(): void {
+  showMainMenu(outboxCount: number = 0): void {
     term.bold.yellow('What would you like to do?\n\n');
     term.green('1. ');
     term.white('Create a new Jira issue\n');
     term.green('2. ');
     term.white('Search existing issues\n');
     term.green('3. ');
-    term.white('Chat with agent\n');
+    term.white('View an issue\n');
     term.green('4. ');
+    term.white('Update an existing issue\n');
+    term.green('5. ');
+    term.white('Move an issue through the workflow\n');
+    term.green('6. ');
+    term.white('Read or add comments\n');
+    term.green('7. ');
+    term.white('Chat with agent\n');
+    term.green('8. ');
+    term.white('Offline outbox');
+    if (outboxCount > 0) {
+      term.yellow(` (${outboxCount} queued)`);
+    }
+    term.white('\n');
+    term.green('9. ');
+    term.white('Usage & costs\n');
+    term.green('10. ');
     term.white('Exit\n\n');
   }
 
   // Get user choice from menu
-  async getUserChoice(): Promise<number> {
+  async getUserChoice(optionCount: number = 10): Promise<number> {
     return new Promise((resolve) => {
-      term.bold.cyan('Enter your choice (1-4): ');
+      term.bold.cyan(`Enter your choice (1-${optionCount}): `);
       
       this.rl.question('', (answer) => {
         const choice = parseInt(answer.trim());
         
-        if (choice >= 1 && choice <= 4) {
+        if (choice >= 1 && choice <= optionCount) {
           resolve(choice);
         } else {
-          term.red('\nInvalid choice. Please enter 1, 2, 3, or 4.\n\n');
-          resolve(this.getUserChoice());
+          term.red(`\nInvalid choice. Please enter a number from 1 to ${optionCount}.\n\n`);
+          resolve(this.getUserChoice(optionCount));
         }
       });
     });
@@ -72,6 +107,18 @@ export class UIManager {
     });
   }
 
+  // Ask a question that keeps the current value when the answer is empty
+  async askQuestionWithDefault(prompt: string, current: string): Promise<string> {
+    return new Promise((resolve) => {
+      term.bold.cyan(prompt);
+      term.gray(`[${current}] `);
+
+      this.rl.question('', (answer) => {
+        resolve(answer.trim() || current);
+      });
+    });
+  }
+
   // Ask for confirmation
   async askConfirmation(prompt: string): Promise<boolean> {
     return new Promise((resolve) => {
@@ -92,6 +139,23 @@ export class UIManager {
     });
   }
 
+  // Multi-line text, ended by a line holding only "." (blank lines separate paragraphs).
+  // Returns an empty string if nothing was entered.
+  async askMultiline(prompt: string): Promise<string> {
+    term.bold.cyan(prompt);
+    term.gray('(finish with a line containing only ".")\n');
+
+    const lines: string[] = [];
+    while (true) {
+      const line = await new Promise<string>((resolve) => this.rl.question('', resolve));
+      if (line.trim() === '.') {
+        break;
+      }
+      lines.push(line.replace(/\s+$/, ''));
+    }
+    return lines.join('\n').trim();
+  }
+
   // Get user input for chat
   async getChatInput(): Promise<string> {
     return new Promise((resolve) => {
@@ -119,15 +183,165 @@ export class UIManager {
     term.white(`Priority: ${issue.priority}\n\n`);
   }
 
-  // Display search results
-  showSearchResults(issues: JiraSearchResult[]): void {
+  // Display issue update form header
+  showIssueUpdateHeader(): void {
+    term.clear();
+    term.bold.green('═══ UPDATE JIRA ISSUE ═══\n\n');
+  }
+
+  // Current fields of an existing issue
+  showIssueDetails(issue: JiraIssueDetails): void {
+    term.bold.yellow(`═══ ${issue.key} ═══\n`);
+    term.white(`Summary: ${issue.summary}\n`);
+    term.gray(`Type: ${issue.issueType} | Status: ${issue.status}\n`);
+    term.white(`Priority: ${issue.priority || 'None'}\n`);
+    term.white(`Labels: ${issue.labels.length > 0 ? issue.labels.join(', ') : 'None'}\n`);
+    term.white(`Assignee: ${issue.assignee || 'Unassigned'}\n`);
+    term.white(`Description: ${issue.description || '(empty)'}\n\n`);
+  }
+
+  // Display issue view header
+  showIssueViewHeader(): void {
+    term.clear();
+    term.bold.green('═══ VIEW JIRA ISSUE ═══\n\n');
+  }
+
+  // Full issue: fields, people, links, subtasks and the rendered description
+  showIssueView(issue: JiraIssueView, url?: string): void {
+    const date = (value: string | null) => value ? new Date(value).toLocaleString() : '-';
+    const ref = (other: JiraIssueRef) => `${other.key}: ${other.summary} [${other.status}]`;
+
+    term.bold.yellow(`═══ ${issue.key}: ${issue.summary} ═══\n`);
+    term.white(`Type: ${issue.issueType} | Status: ${issue.status}${issue.resolution ? ` (${issue.resolution})` : ''} | Priority: ${issue.priority || 'None'}\n`);
+    term.white(`Assignee: ${issue.assignee || 'Unassigned'} | Reporter: ${issue.reporter || 'Unknown'}\n`);
+    term.white(`Labels: ${issue.labels.length > 0 ? issue.labels.join(', ') : 'None'}\n`);
+    term.gray(`Created: ${date(issue.created)} | Updated: ${date(issue.updated)}\n`);
+    if (issue.parent) {
+      term.white(`Parent: ${ref(issue.parent)}\n`);
+    }
+
+    term.bold.white('\nDescription:\n');
+    const description = renderADF(issue.descriptionDocument);
+    if (description.length === 0) {
+      term.gray('  (empty)\n');
+    }
+    description.forEach(rendered => this.writeRenderedLine(rendered, '  '));
+
+    if (issue.links.length > 0) {
+      term.bold.white('\nLinks:\n');
+      issue.links.forEach(link => term.white(`  ${link.relation} ${ref(link)}\n`));
+    }
+    if (issue.subtasks.length > 0) {
+      term.bold.white('\nSubtasks:\n');
+      issue.subtasks.forEach(subtask => term.white(`  ${ref(subtask)}\n`));
+    }
+    if (url) {
+      term.blue(`\nURL: ${url}\n`);
+    }
+    term('\n');
+  }
+
+  // One line of rendered rich text in the color of its style
+  private writeRenderedLine(rendered: RenderedLine, indent: string = ''): void {
+    const text = `${indent}${rendered.text}\n`;
+    switch (rendered.style) {
+      case 'heading':
+        term.bold.yellow(text);
+        break;
+      case 'code':
+        term.green(text);
+        break;
+      case 'quote':
+        term.cyan(text);
+        break;
+      case 'rule':
+      case 'muted':
+        term.gray(text);
+        break;
+      default:
+        term.white(text);
+    }
+  }
+
+  // Field-by-field changes about to be applied to an issue
+  showIssueChanges(issueKey: string, changes: IssueFieldChange[]): void {
+    const format = (value: string | string[] | null) =>
+      Array.isArray(value) ? (value.length > 0 ? value.join(', ') : 'None') : value || 'None';
+
+    term.bold.yellow(`═══ CHANGES TO ${issueKey} ═══\n`);
+    changes.forEach(change => {
+      term.white(`${change.field.charAt(0).toUpperCase()}${change.field.slice(1)}:\n`);
+      term.red(`  - ${format(change.from)}\n`);
+      term.green(`  + ${format(change.to)}\n`);
+    });
+    term('\n');
+  }
+
+  // Display workflow transition header
+  showTransitionHeader(): void {
+    term.clear();
+    term.bold.green('═══ MOVE ISSUE THROUGH THE WORKFLOW ═══\n\n');
+  }
+
+  // Transitions available from the issue's current status, numbered, with Cancel last
+  showTransitions(issue: JiraIssueDetails, transitions: JiraTransition[]): void {
+    term.bold.yellow(`${issue.key}: ${issue.summary}\n`);
+    term.gray(`Current status: ${issue.status}\n\n`);
+    transitions.forEach((transition, index) => {
+      term.green(`${index + 1}. `);
+      term.white(`${transition.name}`);
+      term.gray(` → ${transition.toStatus}${transition.requiresResolution ? ' (needs a resolution)' : ''}\n`);
+    });
+    term.green(`${transitions.length + 1}. `);
+    term.white('Cancel\n\n');
+  }
+
+  // Display comments header
+  showCommentsHeader(): void {
+    term.clear();
+    term.bold.green('═══ ISSUE COMMENTS ═══\n\n');
+  }
+
+  // Comments of an issue with author and time, oldest first
+  showComments(issueKey: string, comments: JiraComment[]): void {
+    if (comments.length === 0) {
+      term.yellow(`${issueKey} has no comments yet.\n\n`);
+      return;
+    }
+
+    term.bold.yellow(`═══ COMMENTS ON ${issueKey} (${comments.length}) ═══\n\n`);
+    comments.forEach(comment => {
+      term.bold.white(comment.author);
+      term.gray(` · ${new Date(comment.created).toLocaleString()}${comment.updated ? ' (edited)' : ''}\n`);
+      comment.body.split('\n').forEach(line => term.white(`  ${line}\n`));
+      term('\n');
+    });
+  }
+
+  // Text of a comment about to be posted
+  showCommentPreview(issueKey: string, text: string): void {
+    term.bold.yellow(`═══ NEW COMMENT ON ${issueKey} ═══\n`);
+    text.split('\n').forEach(line => term.white(`  ${line}\n`));
+    term('\n');
+  }
+
+  // Display search results; with a page, numbering continues across pages
+  showSearchResults(issues: JiraSearchResult[], page?: JiraSearchPage, pageNumber: number = 1): void {
     if (issues.length === 0) {
-      term.yellow('No issues found matching your search.\n\n');
+      term.yellow(pageNumber > 1 ? 'No more issues.\n\n' : 'No issues found matching your search.\n\n');
     } else {
-      term.bold.green(`Found ${issues.length} issue(s):\n\n`);
+      const offset = page ? page.startAt : 0;
+
+      if (page) {
+        const range = `${offset + 1}-${offset + issues.length}`;
+        const total = page.total !== undefined ? ` of ${page.total}` : '';
+        term.bold.green(`Showing issues ${range}${total} (page ${pageNumber}):\n\n`);
+      } else {
+        term.bold.green(`Found ${issues.length} issue(s):\n\n`);
+      }
       
       issues.forEach((issue, index) => {
-        term.white(`${index + 1}. `);
+        term.white(`${offset + index + 1}. `);
         term.bold.white(`${issue.key}: ${issue.fields.summary}\n`);
         term.gray(`   Type: ${issue.fields.issuetype.name} | Status: ${issue.fields.status.name}\n`);
         term.gray(`   Priority: ${issue.fields.priority?.name || 'None'}\n`);
@@ -136,6 +350,37 @@ export class UIManager {
     }
   }
 
+  // Ask how to move through paged search results, or which listed result to open
+  async askPageNavigation(hasPrevious: boolean, hasNext: boolean, canOpen: boolean = false): Promise<SearchNavigation> {
+    const options = [
+      hasNext ? '[n]ext page' : null,
+      hasPrevious ? '[p]revious page' : null,
+      canOpen ? 'a number to open that issue' : null,
+      '[q]uit'
+    ].filter(Boolean).join(', ');
+
+    return new Promise((resolve) => {
+      term.bold.cyan(`${options}: `);
+
+      this.rl.question('', (answer) => {
+        const response = answer.trim().toLowerCase();
+
+        if (hasNext && (response === 'n' || response === 'next' || response === '')) {
+          resolve({ action: 'next' });
+        } else if (hasPrevious && (response === 'p' || response === 'prev' || response === 'previous')) {
+          resolve({ action: 'previous' });
+        } else if (canOpen && /^\d+$/.test(response)) {
+          resolve({ action: 'open', number: parseInt(response) });
+        } else if (response === 'q' || response === 'quit' || (!hasNext && response === '')) {
+          resolve({ action: 'quit' });
+        } else {
+          term.red('\nPlease choose one of the listed options.\n');
+          resolve(this.askPageNavigation(hasPrevious, hasNext, canOpen));
+        }
+      });
+    });
+  }
+
   // Display similar issues warning
   showSimilarIssues(issues: JiraSearchResult[]): void {
     term.bold.yellow('⚠️  Found similar existing issues:\n\n');
@@ -147,6 +392,113 @@ export class UIManager {
     });
   }
 
+  // What to do about the similar issues: create anyway, comment on or view one of them, or cancel
+  showDuplicateOptions(issues: JiraSearchResult[]): void {
+    term.green('1. ');
+    term.white('Create a new issue anyway\n');
+    issues.forEach((issue, index) => {
+      term.green(`${index + 2}. `);
+      term.white(`Add my report as a comment on ${issue.key}\n`);
+    });
+    issues.forEach((issue, index) => {
+      term.green(`${issues.length + index + 2}. `);
+      term.white(`View ${issue.key}\n`);
+    });
+    term.green(`${issues.length * 2 + 2}. `);
+    term.white('Cancel\n\n');
+  }
+
+  // Offline outbox header
+  showOutboxHeader(): void {
+    term.clear();
+    term.bold.green('═══ OFFLINE OUTBOX ═══\n\n');
+    term.gray('Issues below have NOT been created in Jira yet.\n\n');
+  }
+
+  // List queued issues
+  showOutboxEntries(entries: OutboxEntry[]): void {
+    entries.forEach((entry, index) => {
+      term.white(`${index + 1}. `);
+      term.bold.white(`[${entry.issue.project}] ${entry.issue.title}\n`);
+      term.gray(`   Queued: ${new Date(entry.queuedAt).toLocaleString()} | Attempts: ${entry.attempts}\n`);
+      if (entry.lastError) {
+        term.red(`   Last error: ${entry.lastError}\n`);
+      }
+      if (entry.rejected) {
+        term.yellow('   Rejected by Jira: edit it and retry (it is not submitted automatically)\n');
+      }
+      term('\n');
+    });
+  }
+
+  // Show a tool call the AI agent is about to make
+  showToolCall(name: string, args: Record<string, any>, readOnly: boolean): void {
+    term.magenta(`\n🔧 ${readOnly ? 'Tool call' : 'Tool call (changes Jira)'}: `);
+    term.bold.magenta(`${name}\n`);
+    const formatted = JSON.stringify(args, null, 2);
+    term.gray(`${formatted.length > 600 ? formatted.slice(0, 600) + '\n...' : formatted}\n`);
+  }
+
+  // Show how a tool call ended
+  showToolResult(record: ToolCallRecord): void {
+    if (record.status === 'ok') {
+      term.magenta(`   ✓ ${record.name} completed\n`);
+    } else if (record.status === 'declined') {
+      term.yellow(`   ✗ ${record.name} skipped (not approved)\n`);
+    } else {
+      term.red(`   ✗ ${record.name} failed: ${record.result.replace(/^Error: /, '').split('\n')[0]}\n`);
+    }
+  }
+
+  // Rendered prompt template, for debugging prompt overrides
+  showPrompt(prompt: RenderedPrompt): void {
+    term.bold.cyan(`\n═══ PROMPT: ${prompt.name} (version ${prompt.version}) ═══\n`);
+    term.gray(`Source: ${prompt.source}\n\n`);
+    term.white(`${prompt.text}\n\n`);
+  }
+
+  // Token and cost totals for the session, today and recent days
+  showUsageReport(report: UsageReport): void {
+    const describe = (totals: UsageTotals) =>
+      `${totals.requests} requests, ${(totals.promptTokens + totals.completionTokens).toLocaleString()} tokens ` +
+      `(${totals.promptTokens.toLocaleString()} in / ${totals.completionTokens.toLocaleString()} out), $${totals.costUsd.toFixed(4)}`;
+
+    term.bold.cyan('\n═══ USAGE & COSTS ═══\n\n');
+    term.white(`This session: ${describe(report.session)}\n`);
+    Object.entries(report.sessionByModel).forEach(([model, totals]) => {
+      term.gray(`  ${model}: ${describe(totals)}\n`);
+    });
+
+    term.white(`Today:        ${describe(report.today)}\n`);
+    if (report.dailyCapUsd !== null) {
+      const used = report.dailyCapUsd > 0 ? Math.min(100, report.today.costUsd / report.dailyCapUsd * 100) : 100;
+      const line = `  Daily cap: $${report.dailyCapUsd.toFixed(2)} (${used.toFixed(0)}% used)\n`;
+      if (used >= 100) {
+        term.red(line);
+      } else if (used >= 80) {
+        term.yellow(line);
+      } else {
+        term.gray(line);
+      }
+    }
+
+    if (report.recentDays.length > 0) {
+      term.white('\nRecent days:\n');
+      report.recentDays.forEach(({ date, totals }) => term.gray(`  ${date}  ${describe(totals)}\n`));
+    }
+
+    if (report.recentSessions.length > 0) {
+      term.white('\nEarlier sessions:\n');
+      report.recentSessions.forEach(({ startedAt, totals }) => term.gray(`  ${new Date(startedAt).toLocaleString()}  ${describe(totals)}\n`));
+    }
+
+    const unpriced = report.session.unpricedRequests + report.today.unpricedRequests;
+    if (unpriced > 0) {
+      term.yellow('\nSome requests used a model without a configured price and count as $0; set LLM_PRICING to include them.\n');
+    }
+    term.white('\n');
+  }
+
   // Success/Error Messages
   showSuccess(message: string, issueKey?: string, url?: string): void {
     term.bold.green(`✅ ${message}\n`);
@@ -201,20 +553,9 @@ export class UIManager {
     });
   }
 
-  // Typewriter effect for AI responses
-  async typewriterEffect(text: string, speed: number = 30): Promise<void> {
-    return new Promise((resolve) => {
-      let i = 0;
-      const timer = setInterval(() => {
-        if (i < text.length) {
-          term.white(text.charAt(i));
-          i++;
-        } else {
-          clearInterval(timer);
-          resolve();
-        }
-      }, speed);
-    });
+  // Write part of a streamed AI response as it arrives
+  writeStreamed(text: string): void {
+    term.white(text);
   }
 
   // Return to main menu prompt